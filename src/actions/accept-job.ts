@@ -1,13 +1,18 @@
 import type { Action, IAgentRuntime, Memory, State, ActionResult } from '@elizaos/core';
+import { NewsReporterService } from '../services/news-reporter-service';
+import type { QueuedReport } from '../types';
 
 /**
  * ACCEPT_REPORT_JOB Action
  *
- * Accepts a commissioned report job.
- * Integrates with plugin-commerce JobService.
+ * Accepts the requester's own open quote in this room (the whole bundle, if it was
+ * quoted as one) and queues the report(s) for background generation; the queue
+ * delivers them to this room. Expired quotes and other people's quotes are refused
+ * with an explanation.
  *
- * v1: Placeholder for commerce integration
- * v2: Full implementation with JobService
+ * WHY QUEUE HERE (NOT WAIT FOR WRITE_ARTICLE):
+ * - "Yes, proceed" rarely matches WRITE_ARTICLE, so an accepted job could sit forever
+ * - WRITE_ARTICLE still picks up accepted jobs (e.g. a retry after a failed generation)
  */
 export const acceptReportJobAction: Action = {
   name: 'ACCEPT_REPORT_JOB',
@@ -30,14 +35,20 @@ export const acceptReportJobAction: Action = {
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
     const text = message.content.text?.toLowerCase() || '';
 
-    return (
-      (text.includes('yes') ||
-        text.includes('proceed') ||
-        text.includes('go ahead') ||
-        text.includes('accept') ||
-        text.includes('do it')) &&
-      (state?.values?.lastAction === 'QUOTE_REPORT' || text.includes('report') || text.includes('job'))
-    );
+    const accepts =
+      text.includes('yes') ||
+      text.includes('proceed') ||
+      text.includes('go ahead') ||
+      text.includes('accept') ||
+      text.includes('do it');
+    if (!accepts || /\bcancel\b/.test(text)) return false; // "yes, cancel it" is CANCEL_REPORT_JOB
+
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) return false;
+
+    // Requester has a quote here, or explicitly refers to one (so a foreign quote gets a clear refusal)
+    if (reporter.findQuotes({ clientId: message.entityId, roomId: message.roomId }).length > 0) return true;
+    return text.includes('quote') && reporter.findQuotes({ roomId: message.roomId }).length > 0;
   },
 
   handler: async (
@@ -47,13 +58,109 @@ export const acceptReportJobAction: Action = {
     options?: any,
     callback?: (response: any) => void
   ): Promise<ActionResult> => {
-    // v1: Simple acknowledgment
-    // v2: Create job via JobService, track in commerce system
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) {
+      if (callback) {
+        await callback({
+          text: 'News reporter service is not available.',
+          error: true,
+        });
+      }
+      return {
+        success: false,
+        error: new Error('NewsReporter service not available'),
+      };
+    }
 
     try {
+      const text = message.content.text || '';
+      // A full quote ID, or "quote 3f9a2c1e" as quoted -- a bare 8-digit date or amount isn't a reference
+      const quoteRef = (
+        text.match(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/i)?.[0] ??
+        text.match(/\bquote\s+#?([0-9a-f]{8})\b/i)?.[1]
+      )?.toLowerCase();
+      const resolution = reporter.resolveQuoteForAcceptance(message.entityId, message.roomId, quoteRef);
+
+      if (resolution.status !== 'open') {
+        let reply: string;
+        if (resolution.status === 'expired') {
+          reply = `Your quote ${resolution.quote.id.slice(0, 8)} for a ${resolution.quote.reportType.replace(/-/g, ' ')} expired on ${new Date(resolution.quote.expiresAt).toUTCString()}. Ask me again and I'll give you a fresh quote.`;
+        } else if (resolution.status === 'foreign') {
+          reply = 'That quote was given to someone else -- only the person who asked for it can accept it. Tell me what you\'d like covered and I\'ll quote it for you.';
+        } else {
+          reply = 'I don\'t have an open quote for you here. Tell me what you\'d like covered and I\'ll quote it first.';
+        }
+
+        if (callback) {
+          await callback({
+            text: reply,
+            action: 'ACCEPT_REPORT_JOB',
+          });
+        }
+        return {
+          success: false,
+          text: `Quote not accepted: ${resolution.status}`,
+          values: { quoteStatus: resolution.status },
+        };
+      }
+
+      // A bundle is accepted as a whole
+      const accepted = await reporter.acceptQuote(resolution.quotes[0].id, message.entityId);
+
+      // Subscriptions are written by their delivery task, not queued here
+      const subscription = accepted[0].subscriptionId ? reporter.getSubscription(accepted[0].subscriptionId) : null;
+      if (subscription) {
+        const firstDelivery = subscription.nextDeliveryAt
+          ? new Date(subscription.nextDeliveryAt).toUTCString()
+          : 'not scheduled';
+        if (callback) {
+          await callback({
+            text: `Perfect! Your ${subscription.reportType.replace(/-/g, ' ')} subscription is on ($${subscription.price.toFixed(2)}, billed with the first delivery). First delivery: ${firstDelivery}. Subscription ID: ${subscription.id.slice(0, 8)}`,
+            action: 'ACCEPT_REPORT_JOB',
+          });
+        }
+        return {
+          success: true,
+          text: `Subscription ${subscription.id} started`,
+          values: {
+            jobAccepted: true,
+            jobId: accepted[0].id,
+            subscriptionId: subscription.id,
+          },
+          data: { jobs: accepted, subscription },
+        };
+      }
+
+      // Written in the background and delivered to this room when ready
+      const queued: QueuedReport[] = [];
+      for (const job of accepted) {
+        queued.push(
+          await reporter.enqueueReport({
+            reportType: job.reportType,
+            storyIds: job.storyIds,
+            stories: job.stories,
+            jobId: job.id,
+            requestedBy: job.clientId,
+            roomId: job.roomId,
+            source: job.source,
+          })
+        );
+      }
+
+      const total = accepted.reduce((sum, j) => sum + j.price, 0);
+      const names = accepted.map((j) => j.reportType.replace(/-/g, ' ')).join(', ');
+      // Chats the agent can only reply in get the report when they ask for it (DELIVER_REPORT)
+      const delivery = message.content.source
+        ? accepted.length === 1
+          ? 'I\'ll post it here when it\'s ready'
+          : 'I\'ll post each here when it\'s ready'
+        : 'I can\'t post here on my own, so ask me for the report once it\'s ready';
       if (callback) {
         await callback({
-          text: 'Perfect! I\'ve accepted the job. I\'ll start working on your report and deliver it shortly.',
+          text:
+            accepted.length === 1
+              ? `Perfect! I've accepted the job ($${total.toFixed(2)}). Your ${names} is in the queue -- ${delivery}. Ask me for its status any time.`
+              : `Perfect! I've accepted the job ($${total.toFixed(2)}). Your ${names} are in the queue -- ${delivery}. Ask me for their status any time.`,
           action: 'ACCEPT_REPORT_JOB',
         });
       }
@@ -63,6 +170,12 @@ export const acceptReportJobAction: Action = {
         text: 'Job accepted',
         values: {
           jobAccepted: true,
+          jobId: accepted[0].id,
+          jobIds: accepted.map((j) => j.id),
+        },
+        data: {
+          jobs: accepted,
+          queued,
         },
       };
     } catch (error) {
@@ -73,7 +186,7 @@ export const acceptReportJobAction: Action = {
 
       if (callback) {
         await callback({
-          text: 'I encountered an error accepting the job.',
+          text: 'I encountered an error accepting the job. If it was accepted, ask me to write it again to retry.',
           error: true,
         });
       }
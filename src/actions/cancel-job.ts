@@ -0,0 +1,176 @@
+import type { Action, IAgentRuntime, Memory, State, ActionResult } from '@elizaos/core';
+import { NewsReporterService } from '../services/news-reporter-service';
+import { amountOwed, refundedAmount, waivedAmount } from '../services/job-settlement';
+import type { ReportJob } from '../types';
+
+const CANCELLABLE: ReportJob['status'][] = ['accepted', 'in-progress'];
+
+/**
+ * CANCEL_REPORT_JOB Action
+ *
+ * Cancels the requester's commissioned job in this room before it's delivered, with the
+ * credit the cancellation policy allows: refunded if already paid, otherwise taken off
+ * the price. Only the client who accepted the job can cancel.
+ * - One open job: cancels it
+ * - Several: cancels the one whose ID prefix or report type is mentioned, or all if asked
+ *   ("all"), otherwise lists them and asks which one
+ */
+export const cancelReportJobAction: Action = {
+  name: 'CANCEL_REPORT_JOB',
+  description: 'Cancel a commissioned report before it is delivered',
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Actually, cancel that deep dive' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Done, your deep dive (job 3f2a9c1b) is cancelled. You won\'t be charged for it.',
+        },
+      },
+    ],
+  ],
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    if (!/\b(cancel|call off|abort)\b/.test(text) || /\bsubscri/.test(text)) return false;
+
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) return false;
+
+    const open = await reporter.findJobs({
+      clientId: message.entityId,
+      roomId: message.roomId,
+      status: CANCELLABLE,
+    });
+    return open.length > 0;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: any,
+    callback?: (response: any) => void
+  ): Promise<ActionResult> => {
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) {
+      if (callback) {
+        await callback({
+          text: 'News reporter service is not available.',
+          error: true,
+        });
+      }
+      return {
+        success: false,
+        error: new Error('NewsReporter service not available'),
+      };
+    }
+
+    try {
+      const text = (message.content.text || '').toLowerCase();
+      const open = await reporter.findJobs({
+        clientId: message.entityId,
+        roomId: message.roomId,
+        status: CANCELLABLE,
+      });
+
+      if (open.length === 0) {
+        if (callback) {
+          await callback({
+            text: 'You don\'t have any reports in progress here that can still be cancelled.',
+            action: 'CANCEL_REPORT_JOB',
+          });
+        }
+        return { success: false, text: 'No cancellable jobs' };
+      }
+
+      // Pick which jobs to cancel
+      let targets: ReportJob[] = open.filter((j) => text.includes(j.id.slice(0, 8)));
+      if (targets.length === 0) {
+        if (open.length === 1 || /\ball\b/.test(text)) {
+          targets = open;
+        } else {
+          const byType = open.filter((j) => text.includes(j.reportType.replace(/-/g, ' ')));
+          if (byType.length === 1) targets = byType;
+        }
+      }
+
+      if (targets.length === 0) {
+        const list = open
+          .map((j) => `- ${j.id.slice(0, 8)}: ${j.reportType.replace(/-/g, ' ')} (${j.status}, $${j.price})`)
+          .join('\n');
+        if (callback) {
+          await callback({
+            text: `You have ${open.length} reports in progress. Which one should I cancel?\n\n${list}`,
+            action: 'CANCEL_REPORT_JOB',
+          });
+        }
+        return { success: false, text: 'Ambiguous job' };
+      }
+
+      const cancelled: ReportJob[] = [];
+      for (const target of targets) {
+        const result = await reporter.cancelJob(target.id, message.entityId);
+        if (result) cancelled.push(result);
+      }
+
+      if (cancelled.length === 0) {
+        if (callback) {
+          await callback({
+            text: 'Too late to cancel, that report has already been delivered.',
+            action: 'CANCEL_REPORT_JOB',
+          });
+        }
+        return { success: false, text: 'Job no longer cancellable' };
+      }
+
+      const describeCredit = (j: ReportJob): string => {
+        const refunded = refundedAmount(j);
+        if (refunded > 0) return `Refund: $${refunded} of the $${j.price} you paid.`;
+        const owed = amountOwed(j);
+        return owed > 0
+          ? `Cancellation fee: $${owed} of $${j.price} ($${waivedAmount(j)} waived), ask me for the invoice.`
+          : 'You won\'t be charged for it.';
+      };
+      const lines = cancelled.map(
+        (j) => `your ${j.reportType.replace(/-/g, ' ')} (job ${j.id.slice(0, 8)}) is cancelled. ${describeCredit(j)}`
+      );
+      if (callback) {
+        await callback({
+          text: lines.length === 1 ? `Done, ${lines[0]}` : `Done:\n${lines.map((l) => `- ${l}`).join('\n')}`,
+          action: 'CANCEL_REPORT_JOB',
+        });
+      }
+
+      return {
+        success: true,
+        text: `Cancelled ${cancelled.length} job(s)`,
+        values: {
+          cancelledCount: cancelled.length,
+          refunded: cancelled.reduce((sum, j) => sum + refundedAmount(j), 0),
+          waived: cancelled.reduce((sum, j) => sum + waivedAmount(j), 0),
+        },
+        data: {
+          jobs: cancelled,
+        },
+      };
+    } catch (error) {
+      runtime.logger.error({ scope: 'plugin:newsreporter', error }, 'Error in cancelReportJobAction');
+
+      if (callback) {
+        await callback({
+          text: 'I encountered an error cancelling your report.',
+          error: true,
+        });
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+};
@@ -1,13 +1,29 @@
 import type { Action, IAgentRuntime, Memory, State, ActionResult } from '@elizaos/core';
+import { NewsReporterService } from '../services/news-reporter-service';
+import type { NewsReport, ReportJob } from '../types';
+
+/**
+ * Requester's finished-but-undelivered job in this room (in-progress with a report)
+ */
+async function findPendingDelivery(
+  reporter: NewsReporterService,
+  message: Memory
+): Promise<ReportJob | null> {
+  const jobs = await reporter.findJobs({
+    clientId: message.entityId,
+    roomId: message.roomId,
+    status: 'in-progress',
+  });
+  return jobs.find((j) => j.reportId) || null;
+}
 
 /**
  * DELIVER_REPORT Action
  *
- * Delivers a completed report and closes the job.
- * Integrates with plugin-commerce JobService.
- *
- * v1: Placeholder for commerce integration
- * v2: Full implementation with JobService delivery and job closure
+ * Delivers a commissioned report and marks the job delivered (payment follows via commerce).
+ * - Fired automatically with options { jobId, report } once a commissioned report finishes
+ * - Also validates when the client asks for a finished report that wasn't delivered
+ *   (the queue couldn't post it, e.g. the room has no send handler)
  */
 export const deliverReportAction: Action = {
   name: 'DELIVER_REPORT',
@@ -24,9 +40,13 @@ export const deliverReportAction: Action = {
   ],
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
-    // Auto-trigger after report generation
-    // v2: Check if there's a pending job delivery
-    return false; // v1: Manual trigger only via writeArticleAction
+    const text = message.content.text?.toLowerCase() || '';
+    if (!/\b(report|deliver|ready)\b/.test(text)) return false;
+
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) return false;
+
+    return (await findPendingDelivery(reporter, message)) !== null;
   },
 
   handler: async (
@@ -36,22 +56,63 @@ export const deliverReportAction: Action = {
     options?: any,
     callback?: (response: any) => void
   ): Promise<ActionResult> => {
-    // v1: Simple delivery
-    // v2: Update job status, record delivery, trigger payment
-
-    try {
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) {
       if (callback) {
         await callback({
-          text: 'Report delivered! Let me know if you need any revisions or have questions.',
-          action: 'DELIVER_REPORT',
+          text: 'News reporter service is not available.',
+          error: true,
         });
       }
+      return {
+        success: false,
+        error: new Error('NewsReporter service not available'),
+      };
+    }
+
+    try {
+      const job = options?.jobId
+        ? await reporter.getJob(options.jobId)
+        : await findPendingDelivery(reporter, message);
+      if (!job?.reportId) {
+        return { success: false, text: 'No finished report to deliver' };
+      }
+      // The reply is the delivery: without one the job stays in-progress for the next ask
+      if (!callback) {
+        return { success: false, text: 'No reply to deliver the report through' };
+      }
+
+      const report: NewsReport | null = options?.report || (await reporter.getReport(job.reportId));
+      if (!report) {
+        throw new Error(`Report ${job.reportId} for job ${job.id} not found`);
+      }
+
+      await callback({
+        text: `# ${report.title}\n\n${report.content}`,
+        action: 'DELIVER_REPORT',
+      });
+
+      const delivered = await reporter.markJobDelivered(job.id);
+      const invoice = await reporter.getInvoiceForJob(delivered.id);
+
+      await callback({
+        text:
+          'Report delivered! Let me know if you need any revisions or have questions.' +
+          (invoice ? ` Your invoice is ${invoice.number} (ask me for it any time).` : ''),
+        action: 'DELIVER_REPORT',
+      });
 
       return {
         success: true,
         text: 'Report delivered',
         values: {
           delivered: true,
+          jobId: delivered.id,
+          invoiceNumber: invoice?.number,
+        },
+        data: {
+          job: delivered,
+          report,
         },
       };
     } catch (error) {
@@ -0,0 +1,230 @@
+import type { Action, IAgentRuntime, Memory, State, ActionResult } from '@elizaos/core';
+import { NewsReporterService } from '../services/news-reporter-service';
+import type {
+  NewsReport,
+  ReportSearchQuery,
+  ReportSearchResult,
+  ReportType,
+  ReportTypeMetadata,
+} from '../types';
+import { findMentionedReportTypes } from '../knowledge/report-types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 5;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Date phrases → UTC range: today, yesterday, (last) <weekday>, last/this week,
+ * last month, YYYY-MM-DD. Undefined if none found.
+ */
+function parseDateRange(text: string, now: number): { from: number; to: number } | undefined {
+  const startOfToday = Math.floor(now / DAY_MS) * DAY_MS;
+  const day = (start: number) => ({ from: start, to: start + DAY_MS - 1 });
+
+  const iso = text.match(/\b(\d{4}-\d{2}-\d{2})\b/);
+  if (iso) {
+    const start = Date.parse(`${iso[1]}T00:00:00Z`);
+    if (!Number.isNaN(start)) return day(start);
+  }
+  if (/\btoday\b/.test(text)) return day(startOfToday);
+  if (/\byesterday\b/.test(text)) return day(startOfToday - DAY_MS);
+  if (/\b(last|this|past) week\b/.test(text)) return { from: startOfToday - 7 * DAY_MS, to: now };
+  if (/\b(last|this|past) month\b/.test(text)) return { from: startOfToday - 30 * DAY_MS, to: now };
+
+  // "last tuesday" / "tuesday's": most recent such day before today
+  const weekday = WEEKDAYS.findIndex((d) => new RegExp(`\\b${d}`).test(text));
+  if (weekday >= 0) {
+    const today = new Date(startOfToday).getUTCDay();
+    const daysBack = (today - weekday + 7) % 7 || 7;
+    return day(startOfToday - daysBack * DAY_MS);
+  }
+
+  return undefined;
+}
+
+function detectReportType(text: string, types: ReportTypeMetadata[]): ReportType | undefined {
+  const [mentioned] = findMentionedReportTypes(text, types);
+  if (mentioned) return mentioned.type;
+  if (text.includes('deep dive') || text.includes('deep-dive')) return 'deep-dive';
+  if (text.includes('trend')) return 'trend-report';
+  if (text.includes('breaking')) return 'breaking-news';
+  if (text.includes('recap') || text.includes('digest')) return 'daily-recap';
+  if (text.includes('briefing')) return 'briefing';
+  return undefined;
+}
+
+function formatReportLine(report: NewsReport, index: number): string {
+  const date = new Date(report.generatedAt).toUTCString().slice(0, 16);
+  const version = report.version && report.version > 1 ? `, v${report.version}` : '';
+  return `${index}. **${report.title}** (${report.type.replace(/-/g, ' ')}, ${date}${version}) · ${report.id?.slice(0, 8)}`;
+}
+
+/**
+ * FIND_REPORTS Action
+ *
+ * Searches the report archive (reporter_reports) by type, date, free text or ID.
+ * "send me ... again" resends the stored report instead of generating a new one.
+ * Clients only see their own reports and reports made for the current room.
+ */
+export const findReportsAction: Action = {
+  name: 'FIND_REPORTS',
+  description: 'Find past reports in the archive, or resend a stored report',
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Send me last Tuesday\'s deep dive again' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: '# Babylon Whales Move Into Staking\n\n...',
+        },
+      },
+    ],
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Show me my past reports about governance' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Found 2 reports:\n1. **Governance Vote Recap** (briefing, Mon, 12 Oct 2026) · 3f2a9c1b',
+        },
+      },
+    ],
+  ],
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+
+    return (
+      /\b(find|search|list|show|send|resend|look up|pull up)\b/.test(text) &&
+      /\b(reports?|deep dives?|briefings?|recaps?|digests?|articles?|trend reports?)\b/.test(text) &&
+      !/\b(write|create|generate|produce|subscri\w*)\b/.test(text)
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: any,
+    callback?: (response: any) => void
+  ): Promise<ActionResult> => {
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) {
+      if (callback) {
+        await callback({
+          text: 'News reporter service is not available.',
+          error: true,
+        });
+      }
+      return {
+        success: false,
+        error: new Error('NewsReporter service not available'),
+      };
+    }
+
+    try {
+      const text = message.content.text?.toLowerCase() || '';
+      const resend =
+        /\b(again|resend|re-send)\b/.test(text) || (/\bsend me\b/.test(text) && !/\breports\b/.test(text));
+      const page = parseInt(text.match(/\bpage (\d+)\b/)?.[1] || '1', 10);
+      const range = parseDateRange(text, Date.now());
+      const about = text.match(
+        /\b(?:about|regarding|covering)\s+(.+?)(?:\s+(?:from|on|last|this|yesterday|today|again|page)\b.*)?[?.!]*$/
+      );
+      // A full report ID, or "report 3f2a9c1b" / "id 3f2a9c1b" as listed -- not any 8-digit number
+      const idRef =
+        text.match(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/)?.[0] ??
+        text.match(/\b(?:report|id)\s+#?([0-9a-f]{8})\b/)?.[1];
+
+      const query: ReportSearchQuery = {
+        type: detectReportType(text, reporter.getReportTypes()),
+        from: range?.from,
+        to: range?.to,
+        text: about?.[1],
+        visibleTo: { entityId: message.entityId, roomId: message.roomId },
+        offset: (Math.max(1, page) - 1) * PAGE_SIZE,
+        limit: resend ? 1 : PAGE_SIZE,
+      };
+
+      let result: ReportSearchResult;
+      if (idRef) {
+        // An ID prefix pins one report; other filters would only get in the way
+        const recent = await reporter.searchReports({ visibleTo: query.visibleTo, limit: 50 });
+        const match = recent.reports.filter((r) => r.id?.startsWith(idRef));
+        result = { reports: match, total: match.length, offset: 0, limit: 50, hasMore: false };
+      } else {
+        result = await reporter.searchReports(query);
+      }
+
+      if (result.reports.length === 0) {
+        if (callback) {
+          await callback({
+            text: 'I couldn\'t find a stored report matching that. Want me to write a new one?',
+            action: 'FIND_REPORTS',
+          });
+        }
+        return { success: true, text: 'No matching reports', values: { total: 0 } };
+      }
+
+      if (resend) {
+        const report = result.reports[0];
+        if (callback) {
+          await callback({
+            text: `# ${report.title}\n\n${report.content}`,
+            action: 'FIND_REPORTS',
+          });
+        }
+        return {
+          success: true,
+          text: `Resent report ${report.id}`,
+          values: { reportId: report.id, total: result.total },
+          data: { report },
+        };
+      }
+
+      const list = result.reports.map((r, i) => formatReportLine(r, result.offset + i + 1)).join('\n');
+      const footer = result.hasMore
+        ? `\n\nShowing ${result.offset + 1}-${result.offset + result.reports.length} of ${result.total}. Say "page ${page + 1}" for more, or "send me <id> again" for a full report.`
+        : '\n\nSay "send me <id> again" for a full report.';
+
+      if (callback) {
+        await callback({
+          text: `Found ${result.total} report${result.total === 1 ? '' : 's'}:\n${list}${footer}`,
+          action: 'FIND_REPORTS',
+        });
+      }
+
+      return {
+        success: true,
+        text: `Found ${result.total} reports`,
+        values: {
+          total: result.total,
+          page,
+          hasMore: result.hasMore,
+        },
+        data: {
+          reports: result.reports,
+        },
+      };
+    } catch (error) {
+      runtime.logger.error({ scope: 'plugin:newsreporter', error }, 'Error in findReportsAction');
+
+      if (callback) {
+        await callback({
+          text: 'I encountered an error searching the report archive.',
+          error: true,
+        });
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+};
@@ -0,0 +1,142 @@
+import type { Action, IAgentRuntime, Memory, State, ActionResult } from '@elizaos/core';
+import { NewsReporterService } from '../services/news-reporter-service';
+import { renderInvoiceJson, renderInvoiceMarkdown } from '../services/invoice';
+import type { Invoice } from '../types';
+
+function formatInvoiceLine(invoice: Invoice): string {
+  const date = new Date(invoice.issuedAt).toUTCString().slice(0, 16);
+  return `- ${invoice.number}: ${invoice.reportType.replace(/-/g, ' ')}, ${invoice.total} ${invoice.currency} (${invoice.paymentStatus}, ${date})`;
+}
+
+/**
+ * GET_INVOICE Action
+ *
+ * Sends the requester their invoice for a delivered report, as Markdown or JSON ("as json").
+ * Clients only get their own invoices from this room.
+ * - Invoice number or job ID prefix mentioned: that invoice
+ * - "invoices" / "all": lists them
+ * - Otherwise: the latest one
+ */
+export const getInvoiceAction: Action = {
+  name: 'GET_INVOICE',
+  description: 'Send the requester their invoice (receipt) for a delivered report',
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Can I get the invoice for that deep dive?' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: '# Invoice NR-2026-0042\n\n- Issued: Mon, 19 Oct 2026 14:30:00 GMT\n...',
+        },
+      },
+    ],
+  ],
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    // Period totals and recording payments are operator actions (INVOICE_SUMMARY, MARK_JOB_PAID)
+    return (
+      /\b(invoices?|receipts?)\b/.test(text) &&
+      !/\b(summary|summari[sz]e|totals?|reconcil\w*)\b/.test(text) &&
+      !/\b(mark|record)\b.*\bpaid\b/.test(text)
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: any,
+    callback?: (response: any) => void
+  ): Promise<ActionResult> => {
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) {
+      if (callback) {
+        await callback({
+          text: 'News reporter service is not available.',
+          error: true,
+        });
+      }
+      return {
+        success: false,
+        error: new Error('NewsReporter service not available'),
+      };
+    }
+
+    try {
+      const text = (message.content.text || '').toLowerCase();
+      const invoices = (await reporter.findInvoices({ clientId: message.entityId })).filter(
+        (i) => i.roomId === message.roomId
+      );
+
+      if (invoices.length === 0) {
+        if (callback) {
+          await callback({
+            text: 'You don\'t have any invoices here yet. Invoices are issued when a commissioned report is delivered.',
+            action: 'GET_INVOICE',
+          });
+        }
+        return { success: true, text: 'No invoices', values: { count: 0 } };
+      }
+
+      if (/\b(invoices|receipts|all)\b/.test(text)) {
+        if (callback) {
+          await callback({
+            text: `Your invoices:\n${invoices.map(formatInvoiceLine).join('\n')}\n\nAsk for one by number to see it in full.`,
+            action: 'GET_INVOICE',
+          });
+        }
+        return {
+          success: true,
+          text: `Listed ${invoices.length} invoice(s)`,
+          values: { count: invoices.length },
+          data: { invoices },
+        };
+      }
+
+      // Newest first, so the fallback is the latest invoice
+      const invoice =
+        invoices.find((i) => text.includes(i.number.toLowerCase())) ||
+        invoices.find((i) => text.includes(i.jobId.slice(0, 8)) || text.includes(i.id.slice(0, 8))) ||
+        invoices[0];
+      const json = /\bjson\b/.test(text);
+
+      if (callback) {
+        await callback({
+          text: json ? `\`\`\`json\n${renderInvoiceJson(invoice)}\n\`\`\`` : renderInvoiceMarkdown(invoice),
+          action: 'GET_INVOICE',
+        });
+      }
+
+      return {
+        success: true,
+        text: `Sent invoice ${invoice.number}`,
+        values: {
+          invoiceNumber: invoice.number,
+          paymentStatus: invoice.paymentStatus,
+          total: invoice.total,
+        },
+        data: {
+          invoice,
+        },
+      };
+    } catch (error) {
+      runtime.logger.error({ scope: 'plugin:newsreporter', error }, 'Error in getInvoiceAction');
+
+      if (callback) {
+        await callback({
+          text: 'I encountered an error looking up your invoice.',
+          error: true,
+        });
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+};
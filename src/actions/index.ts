@@ -1,4 +1,15 @@
 export { quoteReportAction } from './quote-report';
 export { acceptReportJobAction } from './accept-job';
+export { cancelReportJobAction } from './cancel-job';
 export { writeArticleAction } from './write-article';
 export { deliverReportAction } from './deliver-report';
+export { subscribeAction } from './subscribe';
+export { unsubscribeAction } from './unsubscribe';
+export { listSubscriptionsAction } from './list-subscriptions';
+export { markJobPaidAction } from './mark-job-paid';
+export { requestRevisionAction } from './request-revision';
+export { showReportDiffAction } from './show-report-diff';
+export { findReportsAction } from './find-reports';
+export { reportStatusAction } from './report-status';
+export { getInvoiceAction } from './get-invoice';
+export { invoiceSummaryAction } from './invoice-summary';
@@ -0,0 +1,134 @@
+import type { Action, IAgentRuntime, Memory, State, ActionResult } from '@elizaos/core';
+import { NewsReporterService } from '../services/news-reporter-service';
+import { renderInvoiceSummaryMarkdown } from '../services/invoice';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Period to summarize, UTC: "this month" / "last month" (calendar), "this year",
+ * "2026-09", "this week" / "last 7 days"; default the last 30 days
+ */
+function parsePeriod(text: string, now: number): { from: number; to: number } {
+  const today = new Date(now);
+  const year = today.getUTCFullYear();
+  const month = today.getUTCMonth();
+
+  const monthRef = text.match(/\b(\d{4})-(\d{2})\b/);
+  if (monthRef) {
+    const y = Number(monthRef[1]);
+    const m = Number(monthRef[2]) - 1;
+    if (m >= 0 && m < 12) return { from: Date.UTC(y, m, 1), to: Date.UTC(y, m + 1, 1) - 1 };
+  }
+  if (/\blast month\b/.test(text)) return { from: Date.UTC(year, month - 1, 1), to: Date.UTC(year, month, 1) - 1 };
+  if (/\bthis month\b/.test(text)) return { from: Date.UTC(year, month, 1), to: now };
+  if (/\b(this|the) year\b|\bytd\b/.test(text)) return { from: Date.UTC(year, 0, 1), to: now };
+  if (/\b(this|last|past) week\b|\blast 7 days\b/.test(text)) return { from: now - 7 * DAY_MS, to: now };
+  return { from: now - 30 * DAY_MS, to: now };
+}
+
+/**
+ * INVOICE_SUMMARY Action
+ *
+ * Operators (world owners/admins) get revenue totals for a period: invoices, tax, fees,
+ * waivers, refunds, net, paid vs outstanding and a per-report-type breakdown. Payments
+ * plugin-commerce has confirmed are synced first, so paid/outstanding are current.
+ */
+export const invoiceSummaryAction: Action = {
+  name: 'INVOICE_SUMMARY',
+  description: 'Operator: revenue summary of issued invoices for a period (paid vs outstanding)',
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Give me the invoice summary for last month' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: '# Invoices 01 Sep 2026 – 30 Sep 2026\n\n| | Amount |\n| --- | ---: |\n| Invoices | 12 |\n...',
+        },
+      },
+    ],
+  ],
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return (
+      /\b(invoice|billing|revenue|earnings|sales)\b/.test(text) &&
+      /\b(summary|summarize|summarise|totals?|reconcile|reconciliation|report)\b/.test(text)
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: any,
+    callback?: (response: any) => void
+  ): Promise<ActionResult> => {
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) {
+      if (callback) {
+        await callback({
+          text: 'News reporter service is not available.',
+          error: true,
+        });
+      }
+      return {
+        success: false,
+        error: new Error('NewsReporter service not available'),
+      };
+    }
+
+    try {
+      if (!(await reporter.isOperator(message))) {
+        if (callback) {
+          await callback({
+            text: 'Only an owner or admin of this server can see revenue summaries. Ask me for "my invoices" to see your own.',
+            action: 'INVOICE_SUMMARY',
+          });
+        }
+        return { success: false, text: 'Not an operator' };
+      }
+
+      const { from, to } = parsePeriod((message.content.text || '').toLowerCase(), Date.now());
+      await reporter.syncJobPayments();
+      const summary = await reporter.summarizeInvoices(from, to);
+
+      if (callback) {
+        await callback({
+          text: renderInvoiceSummaryMarkdown(summary),
+          action: 'INVOICE_SUMMARY',
+        });
+      }
+
+      return {
+        success: true,
+        text: `Summarized ${summary.invoiceCount} invoice(s)`,
+        values: {
+          invoiceCount: summary.invoiceCount,
+          net: summary.net,
+          paid: summary.paid,
+          outstanding: summary.outstanding,
+        },
+        data: {
+          summary,
+        },
+      };
+    } catch (error) {
+      runtime.logger.error({ scope: 'plugin:newsreporter', error }, 'Error in invoiceSummaryAction');
+
+      if (callback) {
+        await callback({
+          text: 'I encountered an error summarizing the invoices.',
+          error: true,
+        });
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+};
@@ -0,0 +1,108 @@
+import type { Action, IAgentRuntime, Memory, State, ActionResult } from '@elizaos/core';
+import { NewsReporterService } from '../services/news-reporter-service';
+
+/**
+ * LIST_SUBSCRIPTIONS Action
+ *
+ * Lists the requester's active subscriptions (schedule, next delivery, end date).
+ */
+export const listSubscriptionsAction: Action = {
+  name: 'LIST_SUBSCRIPTIONS',
+  description: 'List your active news report subscriptions',
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'What subscriptions do I have?' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'You have 1 active subscription:\n- a1b2c3d4: daily recap (`0 14 * * *`), next delivery Tue, 21 Oct 2026 14:00:00 GMT',
+        },
+      },
+    ],
+  ],
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+
+    return (
+      text.includes('subscriptions') &&
+      /\b(list|show|what|which|my)\b/.test(text) &&
+      !/\b(cancel|unsubscribe)\b/.test(text)
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: any,
+    callback?: (response: any) => void
+  ): Promise<ActionResult> => {
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) {
+      if (callback) {
+        await callback({
+          text: 'News reporter service is not available.',
+          error: true,
+        });
+      }
+      return {
+        success: false,
+        error: new Error('NewsReporter service not available'),
+      };
+    }
+
+    try {
+      const subscriptions = reporter.getSubscriptions({ clientId: message.entityId });
+
+      const text =
+        subscriptions.length === 0
+          ? 'You don\'t have any active subscriptions.'
+          : `You have ${subscriptions.length} active subscription${subscriptions.length === 1 ? '' : 's'}:\n\n` +
+            subscriptions
+              .map((s) => {
+                const next = s.nextDeliveryAt ? new Date(s.nextDeliveryAt).toUTCString() : 'not scheduled';
+                return `- **${s.id.slice(0, 8)}**: ${s.reportType.replace(/-/g, ' ')} (\`${s.deliverySchedule}\` UTC), next delivery ${next}, until ${new Date(s.endDate).toUTCString()}, ${s.deliveryCount} delivered`;
+              })
+              .join('\n');
+
+      if (callback) {
+        await callback({
+          text,
+          action: 'LIST_SUBSCRIPTIONS',
+        });
+      }
+
+      return {
+        success: true,
+        text: `Listed ${subscriptions.length} subscription(s)`,
+        values: {
+          subscriptionCount: subscriptions.length,
+        },
+        data: {
+          subscriptions,
+        },
+      };
+    } catch (error) {
+      runtime.logger.error(
+        { scope: 'plugin:newsreporter', error },
+        'Error in listSubscriptionsAction'
+      );
+
+      if (callback) {
+        await callback({
+          text: 'I encountered an error listing your subscriptions.',
+          error: true,
+        });
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+};
@@ -0,0 +1,138 @@
+import type { Action, IAgentRuntime, Memory, State, ActionResult } from '@elizaos/core';
+import { NewsReporterService } from '../services/news-reporter-service';
+import { amountOwed } from '../services/job-settlement';
+import type { ReportJob } from '../types';
+
+/**
+ * Which unpaid job the operator means (delivered, or cancelled with a fee still owed):
+ * an invoice number ("NR-2026-0042") or "job <id or 8-char prefix>"
+ */
+async function findUnpaidJob(reporter: NewsReporterService, text: string): Promise<ReportJob | null> {
+  const jobs = await reporter.findJobs({ status: ['delivered', 'cancelled'] });
+  const unpaid = jobs.filter((job) => amountOwed(job) > 0);
+
+  const invoiceNumber = text.match(/\b[a-z][a-z0-9]*-\d{4}-\d{4,}\b/i)?.[0];
+  if (invoiceNumber) {
+    const invoice = await reporter.getInvoice(invoiceNumber);
+    return unpaid.find((job) => job.id === invoice?.jobId) || null;
+  }
+
+  const jobRef = text.match(/\bjob\s+#?([0-9a-f]{8}[0-9a-f-]*)/i)?.[1]?.toLowerCase();
+  if (!jobRef) return null;
+  const matches = unpaid.filter((job) => job.id.startsWith(jobRef));
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * MARK_JOB_PAID Action
+ *
+ * Operators (world owners/admins) record a payment taken outside plugin-commerce:
+ * delivered → paid (or a cancelled job's fee settled), with the client's spend and the
+ * invoice updated. With commerce,
+ * NEWS_PAYMENT_SYNC does this on its own once commerce confirms the payment.
+ */
+export const markJobPaidAction: Action = {
+  name: 'MARK_JOB_PAID',
+  description: 'Operator: record payment for a delivered report job (by invoice number or job ID)',
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Mark invoice NR-2026-0042 as paid' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Marked job 3f9a2c1e (deep dive, $200.00) as paid. Invoice NR-2026-0042 is updated.',
+        },
+      },
+    ],
+  ],
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    return /\b(mark|record|set)\b.*\bpaid\b|\bpayment (received|cleared)\b/.test(text);
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: any,
+    callback?: (response: any) => void
+  ): Promise<ActionResult> => {
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) {
+      if (callback) {
+        await callback({
+          text: 'News reporter service is not available.',
+          error: true,
+        });
+      }
+      return {
+        success: false,
+        error: new Error('NewsReporter service not available'),
+      };
+    }
+
+    try {
+      if (!(await reporter.isOperator(message))) {
+        if (callback) {
+          await callback({
+            text: 'Only an owner or admin of this server can record payments.',
+            action: 'MARK_JOB_PAID',
+          });
+        }
+        return { success: false, text: 'Not an operator' };
+      }
+
+      const job = await findUnpaidJob(reporter, message.content.text || '');
+      if (!job) {
+        if (callback) {
+          await callback({
+            text: 'I couldn\'t find an unpaid job for that. Give me the invoice number (e.g. NR-2026-0042) or "job <id>".',
+            action: 'MARK_JOB_PAID',
+          });
+        }
+        return { success: false, text: 'No matching delivered job' };
+      }
+
+      const paid = await reporter.markJobPaid(job.id, 'operator');
+      const invoice = await reporter.getInvoiceForJob(paid.id);
+
+      if (callback) {
+        await callback({
+          text: `Marked job ${paid.id.slice(0, 8)} (${paid.reportType.replace(/-/g, ' ')}, $${amountOwed(job).toFixed(2)}) as paid.${invoice ? ` Invoice ${invoice.number} is updated.` : ''}`,
+          action: 'MARK_JOB_PAID',
+        });
+      }
+
+      return {
+        success: true,
+        text: `Job ${paid.id} marked paid`,
+        values: {
+          jobId: paid.id,
+          invoiceNumber: invoice?.number,
+        },
+        data: {
+          job: paid,
+          invoice,
+        },
+      };
+    } catch (error) {
+      runtime.logger.error({ scope: 'plugin:newsreporter', error }, 'Error in markJobPaidAction');
+
+      if (callback) {
+        await callback({
+          text: 'I encountered an error recording that payment.',
+          error: true,
+        });
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+};
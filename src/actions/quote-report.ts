@@ -1,12 +1,35 @@
-import type { Action, IAgentRuntime, Memory, State, ActionResult } from '@elizaos/core';
+import type { Action, IAgentRuntime, Memory, State, ActionResult, UUID } from '@elizaos/core';
+import { v4 as uuidv4 } from 'uuid';
 import { NewsReporterService } from '../services/news-reporter-service';
-import { getAllReportTypes } from '../knowledge/report-types';
+import { formatPriceBreakdown } from '../services/pricing';
+import { findMentionedReportTypes } from '../knowledge/report-types';
+import type { PriceBreakdown, ReportQuote, Story } from '../types';
+
+/**
+ * What the report should cover: the phrase after "on" / "about" / "covering", else the request
+ */
+function extractTopic(text: string): string {
+  const match = text.match(/\b(?:on|about|covering|regarding)\s+(?:the\s+)?(.+?)[?.!]*$/i);
+  return (match ? match[1] : text).trim().slice(0, 200);
+}
+
+/**
+ * Which stories the quoted report covers, as listed in the quote
+ */
+function describeCoverage(stories: Story[] | undefined): string {
+  if (!stories?.length) return 'Written from your brief (no tracked story clearly matches)';
+  return `Covering: ${stories.map((s) => `"${s.title}"`).join(', ')}`;
+}
 
 /**
  * QUOTE_REPORT Action
  *
- * Creates a job quote for a commissioned news report.
- * Integrates with plugin-commerce JobService.
+ * Creates a job quote for a commissioned news report, with an itemized price
+ * (rush, length, scope, repeat-client and bundle adjustments).
+ * Quotes are persisted with an expiry and bound to the requester and room.
+ * Returning clients get their most commissioned report type when none is named.
+ * The stories the request is about are matched here and kept on the quote (and the job).
+ * The quote is recorded as a 'quoted' job (plugin-commerce when present, local otherwise).
  */
 export const quoteReportAction: Action = {
   name: 'QUOTE_REPORT',
@@ -28,13 +51,18 @@ export const quoteReportAction: Action = {
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
     const text = message.content.text?.toLowerCase() || '';
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    const mentionsReportType = findMentionedReportTypes(text, reporter?.getReportTypes() || []).length > 0;
 
     return (
       (text.includes('write') ||
         text.includes('report') ||
         text.includes('article') ||
-        text.includes('analysis')) &&
-      (text.includes('can you') || text.includes('could you') || text.includes('quote'))
+        text.includes('analysis') ||
+        mentionsReportType) &&
+      (text.includes('can you') || text.includes('could you') || text.includes('quote')) &&
+      // Subscription quotes are SUBSCRIBE's
+      !/\bsubscri(be|ption)\b/.test(text)
     );
   },
 
@@ -62,34 +90,90 @@ export const quoteReportAction: Action = {
     try {
       const text = message.content.text || '';
 
-      // Detect report type from message
-      const reportTypes = getAllReportTypes();
-      let detectedType = reportTypes[0]; // Default to briefing
-
-      for (const type of reportTypes) {
-        if (
-          text.toLowerCase().includes(type.type) ||
-          text.toLowerCase().includes(type.name.toLowerCase())
-        ) {
-          detectedType = type;
-          break;
-        }
+      const textLower = text.toLowerCase();
+
+      // Detect report type(s) from message. Several = bundle.
+      const reportTypes = reporter.getReportTypes();
+      const mentioned = findMentionedReportTypes(textLower, reportTypes);
+
+      // No type named: returning clients get their usual, everyone else a briefing
+      const profile = reporter.getClientProfile(message.entityId);
+      const preferredType = reporter.getPreferredReportType(message.entityId);
+      const usual = mentioned.length === 0 ? reportTypes.find((t) => t.type === preferredType) : undefined;
+      const detectedTypes = mentioned.length > 0 ? mentioned : [usual || reportTypes[0]];
+
+      // Pricing signals
+      const rush = /\b(rush|urgent|asap|right away|immediately)\b/.test(textLower);
+      const wordMatch = textLower.match(/(\d[\d,]*)\s*-?\s*words?\b/);
+      const wordCount = wordMatch ? parseInt(wordMatch[1].replace(/,/g, ''), 10) : undefined;
+      const storyMatch = textLower.match(/(\d+)\s+(stories|topics)\b/);
+      const storyCount = storyMatch ? parseInt(storyMatch[1], 10) : undefined;
+      const bundleId = detectedTypes.length > 1 ? (uuidv4() as UUID) : undefined;
+
+      const topic = extractTopic(text);
+
+      const quotes: Array<{ type: (typeof detectedTypes)[number]; breakdown: PriceBreakdown; quote: ReportQuote }> = [];
+      for (const type of detectedTypes) {
+        const breakdown = await reporter.quotePrice(
+          { reportType: type.type, rush, wordCount, storyCount, bundleSize: detectedTypes.length },
+          message.entityId
+        );
+
+        // Stories are matched now, against this message's state, and travel with the quote
+        // to the job: by the time it's written a source may have dropped them
+        const resolution = await reporter.resolveStoriesForRequest(text, type.type, message.roomId, state);
+        const stories = resolution.status === 'resolved' ? resolution.stories : undefined;
+
+        // Persist the quote so ACCEPT_REPORT_JOB can resolve exactly this one
+        const quote = await reporter.createQuote({
+          clientId: message.entityId,
+          roomId: message.roomId,
+          source: message.content.source,
+          reportType: type.type,
+          topic,
+          brief: text,
+          priceBreakdown: breakdown,
+          rush,
+          targetWordCount: wordCount,
+          bundleId,
+          stories,
+        });
+        quotes.push({ type, breakdown, quote });
       }
 
-      // Get price
-      const price = reporter.getPriceForReportType(detectedType.type);
+      const expiresAt = new Date(quotes[0].quote.expiresAt).toUTCString();
+      const quoteRef = quotes[0].quote.id.slice(0, 8);
 
-      // Format quote message
-      const quoteText = `I can write a **${detectedType.name}** on that topic for **$${price}**.
+      const total = quotes.reduce((sum, q) => sum + q.breakdown.total, 0);
 
-${detectedType.description}
+      // Format quote message
+      const sections = quotes.map(({ type, breakdown, quote }) => {
+        const minutes = Math.round(reporter.getDeliveryTimeMs(type.type, rush) / 60000);
+        return `**${type.name}**: ${type.description}
 
 **Details:**
-- ${detectedType.estimatedWordCount} words
-- Delivery in ~${Math.round(detectedType.deliveryTimeMs / 60000)} minutes
-- ${detectedType.structure.join(', ')}
+- ${wordCount ?? type.estimatedWordCount} words
+- Delivery in ~${minutes} minutes${rush ? ' (rush)' : ''}
+- ${type.structure.join(', ')}
+- ${describeCoverage(quote.stories)}
+
+**Price:**
+${formatPriceBreakdown(breakdown)}`;
+      });
+
+      const greeting = profile && profile.jobCount > 0 ? 'Welcome back! ' : '';
+      const quoteText =
+        quotes.length === 1
+          ? `${greeting}I can write a **${quotes[0].type.name}**${usual ? ' (your usual)' : ''} on that topic for **$${total.toFixed(2)}**.
+
+${sections[0]}
+
+Quote ${quoteRef}, valid until ${expiresAt}. Would you like me to proceed?`
+          : `${greeting}I can write these ${quotes.length} reports as a bundle for **$${total.toFixed(2)}** total.
+
+${sections.join('\n\n')}
 
-Would you like me to proceed?`;
+Quote ${quoteRef}, valid until ${expiresAt}. Would you like me to proceed with all of them?`;
 
       if (callback) {
         await callback({
@@ -100,14 +184,19 @@ Would you like me to proceed?`;
 
       return {
         success: true,
-        text: `Quoted ${detectedType.name}: $${price}`,
+        text: `Quoted ${quotes.map((q) => q.type.name).join(' + ')}: $${total.toFixed(2)}`,
         values: {
-          reportType: detectedType.type,
-          price,
-          estimatedWordCount: detectedType.estimatedWordCount,
+          quoteId: quotes[0].quote.id,
+          quoteIds: quotes.map((q) => q.quote.id),
+          topic,
+          reportType: quotes[0].type.type,
+          price: total,
+          estimatedWordCount: wordCount ?? quotes[0].type.estimatedWordCount,
         },
         data: {
-          reportType: detectedType,
+          reportType: quotes[0].type,
+          quotes: quotes.map((q) => q.quote),
+          priceBreakdowns: quotes.map((q) => q.breakdown),
         },
       };
     } catch (error) {
@@ -0,0 +1,149 @@
+import type { Action, IAgentRuntime, Memory, State, ActionResult } from '@elizaos/core';
+import { NewsReporterService } from '../services/news-reporter-service';
+import type { QueuedReport } from '../types';
+
+function formatEta(eta: number | null): string {
+  return eta ? `, expected around ${new Date(eta).toUTCString()}` : '';
+}
+
+async function describeEntry(reporter: NewsReporterService, entry: QueuedReport): Promise<string> {
+  const label = `- ${entry.reportType.replace(/-/g, ' ')} (${entry.id.slice(0, 8)})`;
+
+  switch (entry.status) {
+    case 'queued': {
+      const position = await reporter.getQueuePosition(entry.id);
+      const retry = entry.attempts > 0 ? ', retrying after a failed attempt' : '';
+      return `${label}: #${position} in the queue${retry}${formatEta(await reporter.getQueueEta(entry))}`;
+    }
+    case 'running': {
+      const minutes = Math.round((Date.now() - (entry.startedAt ?? Date.now())) / 60000);
+      return `${label}: being written (started ${minutes} min ago${formatEta(await reporter.getQueueEta(entry))})`;
+    }
+    case 'done':
+      return `${label}: ready, posted here at ${new Date(entry.finishedAt ?? Date.now()).toUTCString()}`;
+    case 'failed': {
+      const job = entry.jobId ? await reporter.getJob(entry.jobId) : null;
+      if (job?.status === 'cancelled') return `${label}: cancelled`;
+      if (job?.status === 'in-progress' && job.reportId) {
+        return `${label}: ready, but I couldn't post it here -- ask me for the report and I'll send it`;
+      }
+      return job?.status === 'accepted'
+        ? `${label}: couldn't be finished -- the job is still open, ask me to write it again or cancel it`
+        : `${label}: couldn't be finished`;
+    }
+  }
+}
+
+/**
+ * REPORT_STATUS Action
+ *
+ * Answers "where's my report?" from the generation queue: the requester's reports in this
+ * room with their queue position, progress and expected completion. Finished entries
+ * stay visible for a day.
+ */
+export const reportStatusAction: Action = {
+  name: 'REPORT_STATUS',
+  description: 'Status of the requester\'s queued or in-progress reports',
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Is my deep dive ready yet?' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Your reports:\n- deep dive (3f2a9c1b): being written (started 12 min ago, expected around Mon, 19 Oct 2026 14:30:00 GMT)',
+        },
+      },
+    ],
+  ],
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+
+    return (
+      /\b(status|ready|done|finished|progress|eta|where'?s|how long)\b/.test(text) &&
+      /\b(reports?|articles?|deep dives?|briefings?|recaps?|order|job|commission)\b/.test(text) &&
+      !/\bsubscri/.test(text)
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: any,
+    callback?: (response: any) => void
+  ): Promise<ActionResult> => {
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) {
+      if (callback) {
+        await callback({
+          text: 'News reporter service is not available.',
+          error: true,
+        });
+      }
+      return {
+        success: false,
+        error: new Error('NewsReporter service not available'),
+      };
+    }
+
+    try {
+      const entries = await reporter.getQueuedReports({
+        requestedBy: message.entityId,
+        roomId: message.roomId,
+      });
+
+      if (entries.length === 0) {
+        if (callback) {
+          await callback({
+            text: 'You don\'t have any reports in the works here. Want me to write one?',
+            action: 'REPORT_STATUS',
+          });
+        }
+        return { success: true, text: 'No queued reports', values: { count: 0 } };
+      }
+
+      // Newest first: the one they most likely mean is on top
+      const lines: string[] = [];
+      for (const entry of [...entries].reverse()) {
+        lines.push(await describeEntry(reporter, entry));
+      }
+
+      if (callback) {
+        await callback({
+          text: `Your reports:\n${lines.join('\n')}`,
+          action: 'REPORT_STATUS',
+        });
+      }
+
+      return {
+        success: true,
+        text: `${entries.length} queued report(s)`,
+        values: {
+          count: entries.length,
+          pending: entries.filter((e) => e.status === 'queued' || e.status === 'running').length,
+        },
+        data: {
+          entries,
+        },
+      };
+    } catch (error) {
+      runtime.logger.error({ scope: 'plugin:newsreporter', error }, 'Error in reportStatusAction');
+
+      if (callback) {
+        await callback({
+          text: 'I encountered an error checking on your report.',
+          error: true,
+        });
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+};
@@ -0,0 +1,140 @@
+import type { Action, IAgentRuntime, Memory, State, ActionResult } from '@elizaos/core';
+import { NewsReporterService } from '../services/news-reporter-service';
+
+const REVISION_PATTERN = /\b(revise|revision|rewrite|edit|change|fix|tweak|shorten|expand)\b/;
+
+/**
+ * REQUEST_REVISION Action
+ *
+ * Applies the client's feedback to their latest report as a targeted rewrite.
+ * Each revision is stored as a new version (parent link) in reporter_reports.
+ * Commissioned jobs get REPORTER_FREE_REVISIONS free revisions.
+ */
+export const requestRevisionAction: Action = {
+  name: 'REQUEST_REVISION',
+  description: 'Revise the client\'s latest report based on their feedback',
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Can you revise the report to focus more on the governance vote?' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Here\'s version 2 with more on the governance vote. You have 1 free revision left for this job.',
+        },
+      },
+    ],
+  ],
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    if (!REVISION_PATTERN.test(text) || !/\b(report|article|briefing|it|this|that)\b/.test(text)) {
+      return false;
+    }
+    // Diff requests are SHOW_REPORT_DIFF's
+    if (/\b(diff|what changed|compare)\b/.test(text)) return false;
+
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) return false;
+
+    return (await reporter.findLatestReport(message.entityId, message.roomId)) !== null;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: any,
+    callback?: (response: any) => void
+  ): Promise<ActionResult> => {
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) {
+      if (callback) {
+        await callback({
+          text: 'News reporter service is not available.',
+          error: true,
+        });
+      }
+      return {
+        success: false,
+        error: new Error('NewsReporter service not available'),
+      };
+    }
+
+    try {
+      const latest = await reporter.findLatestReport(message.entityId, message.roomId);
+      if (!latest?.id) {
+        if (callback) {
+          await callback({
+            text: 'I couldn\'t find a report of yours to revise.',
+            action: 'REQUEST_REVISION',
+          });
+        }
+        return { success: false, text: 'No report to revise' };
+      }
+
+      const allowance = await reporter.getRevisionAllowance(latest);
+      if (allowance.limited && allowance.remaining <= 0) {
+        if (callback) {
+          await callback({
+            text: `You've used all ${allowance.free} free revisions for this job. I can quote you a new report with the changes you want.`,
+            action: 'REQUEST_REVISION',
+          });
+        }
+        return {
+          success: false,
+          text: 'No free revisions left',
+          values: { revisionsUsed: allowance.used, freeRevisions: allowance.free },
+        };
+      }
+
+      const revised = await reporter.reviseReport(latest.id, message.content.text || '');
+      const remaining = allowance.limited ? allowance.remaining - 1 : null;
+
+      if (callback) {
+        await callback({
+          text: `# ${revised.title}\n\n${revised.content}`,
+          action: 'REQUEST_REVISION',
+        });
+        await callback({
+          text: `That's version ${revised.version}.${
+            remaining !== null
+              ? ` You have ${remaining} free revision${remaining === 1 ? '' : 's'} left for this job.`
+              : ''
+          } Ask me "what changed?" to see the diff.`,
+          action: 'REQUEST_REVISION',
+        });
+      }
+
+      return {
+        success: true,
+        text: `Revised report to version ${revised.version}`,
+        values: {
+          reportId: revised.id,
+          parentId: revised.parentId,
+          version: revised.version,
+          revisionsRemaining: remaining,
+        },
+        data: {
+          report: revised,
+        },
+      };
+    } catch (error) {
+      runtime.logger.error({ scope: 'plugin:newsreporter', error }, 'Error in requestRevisionAction');
+
+      if (callback) {
+        await callback({
+          text: 'I encountered an error revising the report.',
+          error: true,
+        });
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+};
@@ -0,0 +1,122 @@
+import type { Action, IAgentRuntime, Memory, State, ActionResult } from '@elizaos/core';
+import { NewsReporterService } from '../services/news-reporter-service';
+
+/**
+ * SHOW_REPORT_DIFF Action
+ *
+ * Shows what changed between versions of the client's latest report.
+ * Default: latest vs previous version. "v1" / "version 1" compares against that version.
+ */
+export const showReportDiffAction: Action = {
+  name: 'SHOW_REPORT_DIFF',
+  description: 'Show the differences between versions of a revised report',
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'What changed in the new version?' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Changes from version 1 to version 2:\n```diff\n- Turnout was low.\n+ Turnout hit a record 41%.\n```',
+        },
+      },
+    ],
+  ],
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+    if (!/\b(diff|what changed|what's changed|compare|changes)\b/.test(text)) return false;
+    if (!/\b(report|version|revision|it|v\d+)\b/.test(text)) return false;
+
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) return false;
+
+    const latest = await reporter.findLatestReport(message.entityId, message.roomId);
+    return !!latest?.parentId;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: any,
+    callback?: (response: any) => void
+  ): Promise<ActionResult> => {
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) {
+      if (callback) {
+        await callback({
+          text: 'News reporter service is not available.',
+          error: true,
+        });
+      }
+      return {
+        success: false,
+        error: new Error('NewsReporter service not available'),
+      };
+    }
+
+    try {
+      const latest = await reporter.findLatestReport(message.entityId, message.roomId);
+      if (!latest?.id || !latest.parentId) {
+        if (callback) {
+          await callback({
+            text: 'Your latest report has no earlier version to compare with.',
+            action: 'SHOW_REPORT_DIFF',
+          });
+        }
+        return { success: false, text: 'No earlier version' };
+      }
+
+      // Optional "version N" / "vN" to compare against
+      const text = message.content.text?.toLowerCase() || '';
+      const versionMatch = text.match(/\b(?:version\s*|v)(\d+)\b/);
+      let fromId = latest.parentId;
+      if (versionMatch) {
+        const versions = await reporter.getReportVersions(latest.id);
+        const target = versions.find((v) => v.version === parseInt(versionMatch[1], 10));
+        if (target?.id && target.id !== latest.id) fromId = target.id;
+      }
+
+      const result = await reporter.getReportDiff(latest.id, fromId);
+      if (!result) {
+        throw new Error(`Could not load versions for report ${latest.id}`);
+      }
+
+      if (callback) {
+        await callback({
+          text: `Changes from version ${result.from.version} to version ${result.to.version}:\n\`\`\`diff\n${result.diff}\n\`\`\``,
+          action: 'SHOW_REPORT_DIFF',
+        });
+      }
+
+      return {
+        success: true,
+        text: `Diffed version ${result.from.version} → ${result.to.version}`,
+        values: {
+          fromVersion: result.from.version,
+          toVersion: result.to.version,
+        },
+        data: {
+          diff: result.diff,
+        },
+      };
+    } catch (error) {
+      runtime.logger.error({ scope: 'plugin:newsreporter', error }, 'Error in showReportDiffAction');
+
+      if (callback) {
+        await callback({
+          text: 'I encountered an error comparing the report versions.',
+          error: true,
+        });
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+};
@@ -0,0 +1,163 @@
+import type { Action, IAgentRuntime, Memory, State, ActionResult } from '@elizaos/core';
+import { NewsReporterService } from '../services/news-reporter-service';
+import type { ReportType } from '../types';
+import { findMentionedReportTypes } from '../knowledge/report-types';
+import { formatPriceBreakdown } from '../services/pricing';
+import { parseSchedule } from '../services/cron-schedule';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse "for 3 months" / "for 2 weeks" / "for 10 days". Undefined = service default (1 month).
+ */
+function parseDuration(text: string): number | undefined {
+  const match = text.match(/\bfor (\d+|a|one) (day|week|month)s?\b/);
+  if (!match) return undefined;
+
+  const count = /^\d+$/.test(match[1]) ? parseInt(match[1], 10) : 1;
+  const unitMs = match[2] === 'day' ? DAY_MS : match[2] === 'week' ? 7 * DAY_MS : 30 * DAY_MS;
+  return count * unitMs;
+}
+
+/**
+ * SUBSCRIBE Action
+ *
+ * Quotes a recurring report subscription delivered to the current room. Accepting the
+ * quote (ACCEPT_REPORT_JOB) starts it and records it as a payable job.
+ * Reports are generated and sent by the NEWS_SUBSCRIPTION_DELIVERY task on the cron schedule.
+ */
+export const subscribeAction: Action = {
+  name: 'SUBSCRIBE',
+  description: 'Quote a subscription to recurring news reports (daily, weekly or a cron schedule)',
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Subscribe me to a weekly trend report for 3 months' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'A weekly Trend Report here for 3 months comes to $1500. Quote 3f9a2c1e, valid until Tue, 20 Oct 2026 14:00:00 GMT. Shall I start it?',
+        },
+      },
+    ],
+  ],
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+
+    return (
+      /\bsubscri(be|ption)\b/.test(text) &&
+      !/\b(unsubscribe|cancel|stop|end|list|show|my subscriptions)\b/.test(text)
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: any,
+    callback?: (response: any) => void
+  ): Promise<ActionResult> => {
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) {
+      if (callback) {
+        await callback({
+          text: 'News reporter service is not available.',
+          error: true,
+        });
+      }
+      return {
+        success: false,
+        error: new Error('NewsReporter service not available'),
+      };
+    }
+
+    try {
+      // Scheduled reports are sent outside of a reply, through the room's platform
+      const source = message.content.source;
+      if (!source) {
+        if (callback) {
+          await callback({
+            text: 'I can\'t send scheduled reports to this chat, so I can\'t set up a subscription here.',
+            action: 'SUBSCRIBE',
+          });
+        }
+        return { success: false, text: 'No delivery source for this room' };
+      }
+
+      const text = (message.content.text || '').toLowerCase();
+
+      // Detect report type (recaps suit recurring delivery best)
+      let reportType: ReportType = 'daily-recap';
+      const [mentioned] = findMentionedReportTypes(text, reporter.getReportTypes());
+
+      if (mentioned) {
+        reportType = mentioned.type;
+      } else if (text.includes('deep dive') || text.includes('deep-dive')) {
+        reportType = 'deep-dive';
+      } else if (text.includes('trend')) {
+        reportType = 'trend-report';
+      } else if (text.includes('briefing')) {
+        reportType = 'briefing';
+      }
+
+      const quote = await reporter.quoteSubscription({
+        clientId: message.entityId,
+        roomId: message.roomId,
+        source,
+        reportType,
+        brief: message.content.text || '',
+        schedule: parseSchedule(message.content.text || ''),
+        durationMs: parseDuration(text),
+      });
+      const { deliverySchedule, durationMs } = quote.subscription!;
+
+      if (callback) {
+        await callback({
+          text: `I can deliver a **${reportType.replace(/-/g, ' ')}** to this chat on a schedule for **$${quote.price.toFixed(2)}**.
+
+**Details:**
+- Schedule: \`${deliverySchedule}\` (cron, UTC)
+- For: ${Math.round(durationMs / DAY_MS)} days from acceptance
+- Billed with the first delivery
+
+${quote.priceBreakdown ? `**Price:**\n${formatPriceBreakdown(quote.priceBreakdown)}\n\n` : ''}Quote ${quote.id.slice(0, 8)}, valid until ${new Date(quote.expiresAt).toUTCString()}. Shall I start it?`,
+          action: 'SUBSCRIBE',
+        });
+      }
+
+      return {
+        success: true,
+        text: `Quoted subscription ${quote.id}`,
+        values: {
+          quoteId: quote.id,
+          reportType,
+          deliverySchedule,
+          price: quote.price,
+        },
+        data: {
+          quote,
+        },
+      };
+    } catch (error) {
+      runtime.logger.error({ scope: 'plugin:newsreporter', error }, 'Error in subscribeAction');
+
+      if (callback) {
+        await callback({
+          text:
+            error instanceof Error && error.message.startsWith('Invalid delivery schedule')
+              ? 'That schedule doesn\'t look like a valid cron expression (e.g. `0 9 * * 1-5`). Try "daily" or "weekly" instead.'
+              : 'I encountered an error quoting your subscription.',
+          error: true,
+        });
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+};
@@ -0,0 +1,142 @@
+import type { Action, IAgentRuntime, Memory, State, ActionResult } from '@elizaos/core';
+import { NewsReporterService } from '../services/news-reporter-service';
+import type { Subscription } from '../types';
+
+/**
+ * UNSUBSCRIBE Action
+ *
+ * Cancels the requester's subscription. Only the subscriber can cancel their own.
+ * - One active subscription: cancels it
+ * - Several: cancels the one whose ID prefix is mentioned, or all if asked ("all"),
+ *   otherwise lists them and asks which one
+ */
+export const unsubscribeAction: Action = {
+  name: 'UNSUBSCRIBE',
+  description: 'Cancel a recurring news report subscription',
+  examples: [
+    [
+      {
+        name: '{{user1}}',
+        content: { text: 'Please unsubscribe me from the daily recap' },
+      },
+      {
+        name: '{{agent}}',
+        content: {
+          text: 'Done, your daily recap subscription is cancelled. No more deliveries.',
+        },
+      },
+    ],
+  ],
+
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    const text = message.content.text?.toLowerCase() || '';
+
+    return (
+      text.includes('unsubscribe') ||
+      (/\b(cancel|stop|end)\b/.test(text) && text.includes('subscription'))
+    );
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: any,
+    callback?: (response: any) => void
+  ): Promise<ActionResult> => {
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+    if (!reporter) {
+      if (callback) {
+        await callback({
+          text: 'News reporter service is not available.',
+          error: true,
+        });
+      }
+      return {
+        success: false,
+        error: new Error('NewsReporter service not available'),
+      };
+    }
+
+    try {
+      const text = (message.content.text || '').toLowerCase();
+      const active = reporter.getSubscriptions({ clientId: message.entityId });
+
+      if (active.length === 0) {
+        if (callback) {
+          await callback({
+            text: 'You don\'t have any active subscriptions.',
+            action: 'UNSUBSCRIBE',
+          });
+        }
+        return { success: false, text: 'No active subscriptions' };
+      }
+
+      // Pick which subscriptions to cancel
+      let targets: Subscription[] = active.filter((s) => text.includes(s.id.slice(0, 8)));
+      if (targets.length === 0) {
+        if (active.length === 1 || /\ball\b/.test(text)) {
+          targets = active;
+        } else {
+          const byType = active.filter((s) => text.includes(s.reportType.replace(/-/g, ' ')));
+          if (byType.length === 1) targets = byType;
+        }
+      }
+
+      if (targets.length === 0) {
+        const list = active
+          .map((s) => `- ${s.id.slice(0, 8)}: ${s.reportType.replace(/-/g, ' ')} (\`${s.deliverySchedule}\`)`)
+          .join('\n');
+        if (callback) {
+          await callback({
+            text: `You have ${active.length} active subscriptions. Which one should I cancel?\n\n${list}`,
+            action: 'UNSUBSCRIBE',
+          });
+        }
+        return { success: false, text: 'Ambiguous subscription' };
+      }
+
+      const cancelled: Subscription[] = [];
+      for (const target of targets) {
+        const result = await reporter.cancelSubscription(target.id, message.entityId);
+        if (result) cancelled.push(result);
+      }
+
+      const names = cancelled.map((s) => s.reportType.replace(/-/g, ' ')).join(', ');
+      if (callback) {
+        await callback({
+          text:
+            cancelled.length === 1
+              ? `Done, your ${names} subscription is cancelled. No more deliveries.`
+              : `Done, cancelled ${cancelled.length} subscriptions (${names}). No more deliveries.`,
+          action: 'UNSUBSCRIBE',
+        });
+      }
+
+      return {
+        success: true,
+        text: `Cancelled ${cancelled.length} subscription(s)`,
+        values: {
+          cancelledCount: cancelled.length,
+        },
+        data: {
+          subscriptions: cancelled,
+        },
+      };
+    } catch (error) {
+      runtime.logger.error({ scope: 'plugin:newsreporter', error }, 'Error in unsubscribeAction');
+
+      if (callback) {
+        await callback({
+          text: 'I encountered an error cancelling your subscription.',
+          error: true,
+        });
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  },
+};
@@ -1,12 +1,72 @@
-import type { Action, IAgentRuntime, Memory, State, ActionResult, UUID } from '@elizaos/core';
+import type { Action, IAgentRuntime, Memory, State, ActionResult } from '@elizaos/core';
 import { NewsReporterService } from '../services/news-reporter-service';
-import type { ReportType } from '../types';
+import { pickFromCandidates } from '../services/story-matcher';
+import type { QueuedReport, ReportType, Story } from '../types';
+import { findMentionedReportTypes } from '../knowledge/report-types';
+
+async function describeQueued(reporter: NewsReporterService, queued: QueuedReport, covering = ''): Promise<string> {
+  const name = queued.reportType.replace(/-/g, ' ') + covering;
+  const position = await reporter.getQueuePosition(queued.id);
+  if (position > 1) {
+    return `I'll write your ${name}. It's #${position} in the queue -- I'll post it here when it's ready.`;
+  }
+  return `I'll write your ${name} now and post it here when it's ready. This will take a few minutes...`;
+}
+
+function formatCandidates(candidates: Story[]): string {
+  return candidates.map((s, i) => `${i + 1}. ${s.title} (${s.id.slice(0, 8)})`).join('\n');
+}
+
+async function queueAdHocReport(
+  reporter: NewsReporterService,
+  message: Memory,
+  reportType: ReportType,
+  brief: string,
+  stories: Story[],
+  callback?: (response: any) => void
+): Promise<ActionResult> {
+  const queued = await reporter.enqueueReport({
+    reportType,
+    stories,
+    requestedBy: message.entityId,
+    roomId: message.roomId,
+    source: message.content.source,
+    brief,
+  });
+
+  if (callback) {
+    const covering = stories.length === 1 ? ` on "${stories[0].title}"` : ` covering ${stories.length} stories`;
+    await callback({
+      text: await describeQueued(reporter, queued, covering),
+      action: 'WRITE_ARTICLE',
+    });
+  }
+
+  return {
+    success: true,
+    text: `Queued ${reportType} report`,
+    values: {
+      reportType,
+      queueId: queued.id,
+      storyCount: stories.length,
+    },
+    data: {
+      queued,
+      stories,
+    },
+  };
+}
 
 /**
  * WRITE_ARTICLE Action
  *
- * Generates a news report/article.
- * Can be commissioned (via commerce job) or ad-hoc.
+ * Queues a news report/article for background generation; the queue posts it to this
+ * room when it's ready. Can be commissioned (via commerce job) or ad-hoc. If the
+ * requester has an accepted job in this room, that job is queued (and delivered) instead.
+ * Ad-hoc requests are resolved to active stories (titles, topics, entities) first:
+ * - Several candidates for a single-story report: asks which one, and a follow-up
+ *   ("the second one", an ID prefix, "both") picks from them
+ * - Nothing matches: says so instead of writing an unsourced article
  */
 export const writeArticleAction: Action = {
   name: 'WRITE_ARTICLE',
@@ -28,6 +88,11 @@ export const writeArticleAction: Action = {
 
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
     const text = message.content.text?.toLowerCase() || '';
+    const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+
+    // Answer to "which story did you mean?"
+    const pending = reporter?.getPendingStoryChoice(message.roomId, message.entityId);
+    if (pending && pickFromCandidates(text, pending.candidates).length > 0) return true;
 
     return (
       (text.includes('write') ||
@@ -37,7 +102,8 @@ export const writeArticleAction: Action = {
       (text.includes('report') ||
         text.includes('article') ||
         text.includes('briefing') ||
-        text.includes('analysis'))
+        text.includes('analysis') ||
+        findMentionedReportTypes(text, reporter?.getReportTypes() || []).length > 0)
     );
   },
 
@@ -63,12 +129,66 @@ export const writeArticleAction: Action = {
     }
 
     try {
+      // Follow-up to "which story did you mean?"
+      const pending = reporter.getPendingStoryChoice(message.roomId, message.entityId);
+      const picked = pending ? pickFromCandidates(message.content.text || '', pending.candidates) : [];
+      if (pending && picked.length > 0) {
+        reporter.clearPendingStoryChoice(message.roomId, message.entityId);
+        return await queueAdHocReport(reporter, message, pending.reportType, pending.brief, picked, callback);
+      }
+
+      // Commissioned: fulfill the requester's accepted job (subscription jobs are written on schedule)
+      const acceptedJob = (
+        await reporter.findJobs({
+          clientId: message.entityId,
+          roomId: message.roomId,
+          status: 'accepted',
+        })
+      ).find((job) => !job.subscriptionId);
+
+      if (acceptedJob) {
+        // Already queued (e.g. by ACCEPT_REPORT_JOB) returns the existing entry
+        const queued = await reporter.enqueueReport({
+          reportType: acceptedJob.reportType,
+          storyIds: acceptedJob.storyIds,
+          stories: acceptedJob.stories,
+          jobId: acceptedJob.id,
+          requestedBy: acceptedJob.clientId,
+          roomId: acceptedJob.roomId,
+          source: acceptedJob.source,
+        });
+
+        if (callback) {
+          await callback({
+            text: await describeQueued(reporter, queued),
+            action: 'WRITE_ARTICLE',
+          });
+        }
+
+        return {
+          success: true,
+          text: `Queued ${acceptedJob.reportType} report for job ${acceptedJob.id}`,
+          values: {
+            reportType: acceptedJob.reportType,
+            jobId: acceptedJob.id,
+            queueId: queued.id,
+          },
+          data: {
+            job: acceptedJob,
+            queued,
+          },
+        };
+      }
+
       const text = message.content.text || '';
 
-      // Detect report type
+      // Detect report type: an exact type ID or name (incl. custom types) first, then keywords
       let reportType: ReportType = 'briefing'; // Default
+      const [mentioned] = findMentionedReportTypes(text, reporter.getReportTypes());
 
-      if (text.includes('deep dive') || text.includes('deep-dive')) {
+      if (mentioned) {
+        reportType = mentioned.type;
+      } else if (text.includes('deep dive') || text.includes('deep-dive')) {
         reportType = 'deep-dive';
       } else if (text.includes('trend')) {
         reportType = 'trend-report';
@@ -78,40 +198,42 @@ export const writeArticleAction: Action = {
         reportType = 'daily-recap';
       }
 
-      // For now, generate report without specific story IDs
-      // v2: extract story IDs from context or use investigator to find relevant stories
-      const storyIds: UUID[] = [];
+      const resolution = await reporter.resolveStoriesForRequest(text, reportType, message.roomId, state);
 
-      if (callback) {
-        await callback({
-          text: `I'll write a ${reportType.replace(/-/g, ' ')} for you. This will take a few minutes...`,
-          action: 'WRITE_ARTICLE',
-        });
+      if (resolution.status === 'none') {
+        const reply = resolution.topic
+          ? `I'm not tracking any active stories about "${resolution.topic}", so I can't write a sourced report on it yet. Try another topic, or ask me again once it's in the news.`
+          : 'I\'m not tracking any active stories right now, so there\'s nothing I can report on yet.';
+        if (callback) {
+          await callback({
+            text: reply,
+            action: 'WRITE_ARTICLE',
+          });
+        }
+        return { success: false, text: 'No matching stories', values: { topic: resolution.topic } };
       }
 
-      const report = await reporter.generateReport(reportType, storyIds, {
-        requestedBy: message.entityId,
-      });
-
-      if (callback) {
-        await callback({
-          text: `# ${report.title}\n\n${report.content}`,
-          action: 'WRITE_ARTICLE',
+      if (resolution.status === 'ambiguous') {
+        reporter.setPendingStoryChoice(message.roomId, message.entityId, {
+          reportType,
+          brief: text,
+          candidates: resolution.candidates,
         });
+        if (callback) {
+          await callback({
+            text: `Which story should your ${reportType.replace(/-/g, ' ')} cover?\n\n${formatCandidates(resolution.candidates)}\n\nReply with a number, or "all" to cover them together.`,
+            action: 'WRITE_ARTICLE',
+          });
+        }
+        return {
+          success: false,
+          text: 'Ambiguous story',
+          values: { candidateCount: resolution.candidates.length },
+          data: { candidates: resolution.candidates },
+        };
       }
 
-      return {
-        success: true,
-        text: `Generated ${reportType} report`,
-        values: {
-          reportType,
-          wordCount: report.wordCount,
-          title: report.title,
-        },
-        data: {
-          report,
-        },
-      };
+      return await queueAdHocReport(reporter, message, reportType, text, resolution.stories, callback);
     } catch (error) {
       runtime.logger.error({ scope: 'plugin:newsreporter', error }, 'Error in writeArticleAction');
 
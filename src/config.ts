@@ -18,17 +18,46 @@ export const newsReporterConfigSchema = z.object({
     .pipe(z.boolean())
     .default('true'),
 
+  // Room-topic inference
+  REPORTER_ROOM_TOPICS_TTL_MS: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number())
+    .default('86400000'), // 24h
+  REPORTER_ROOM_TOPICS_MESSAGE_COUNT: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number())
+    .default('100'),
+
+  // Archetype selection (explore/exploit on per-room engagement)
+  REPORTER_ARCHETYPE_EXPLORATION_RATE: z
+    .string()
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().min(0).max(1))
+    .default('0.2'),
+
   // Anti-spam safeguards (v1 subset)
   REPORTER_MIN_IDLE_BEFORE_NUDGE_MS: z
     .string()
     .transform((val) => parseInt(val, 10))
     .pipe(z.number())
-    .default('1800000'), // 30min (v2: implement idle detection)
+    .default('1800000'), // 30min since last human message
+  REPORTER_BREAKING_MIN_IDLE_MS: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number())
+    .default('300000'), // 5min -- breaking stories may interrupt sooner
   REPORTER_DAILY_MENTION_CAP: z
     .string()
     .transform((val) => parseInt(val, 10))
     .pipe(z.number())
     .default('15'),
+  REPORTER_FEEDBACK_CONFIDENCE_THRESHOLD: z
+    .string()
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().min(0).max(1))
+    .default('0.7'), // Min classifier confidence to record a strike
   REPORTER_STRIKE_MUTE_HOURS: z
     .string()
     .transform((val) => parseInt(val, 10))
@@ -38,7 +67,17 @@ export const newsReporterConfigSchema = z.object({
     .string()
     .transform((val) => parseInt(val, 10))
     .pipe(z.number())
-    .default('48'),
+    .default('48'), // Each strike expires this long after it was recorded
+  REPORTER_STRIKE_MUTE_DISTINCT_USERS: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number())
+    .default('2'), // Mute when this many different people complain...
+  REPORTER_STRIKE_MUTE_WINDOW_HOURS: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number())
+    .default('24'), // ...within this window
 
   // Digests (v2 feature, disabled in v1)
   REPORTER_DAILY_DIGEST_ENABLED: z
@@ -63,11 +102,104 @@ export const newsReporterConfigSchema = z.object({
     .transform((val) => parseInt(val, 10))
     .pipe(z.number())
     .default('200'),
+  REPORTER_QUOTE_EXPIRY_HOURS: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().min(1))
+    .default('24'),
+  REPORTER_FREE_REVISIONS: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().min(0))
+    .default('2'), // Per commissioned job
+  REPORTER_RUSH_MULTIPLIER: z
+    .string()
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().min(1))
+    .default('1.5'), // Rush delivery = 1.5x
+  REPORTER_EXTRA_STORY_PRICE: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().min(0))
+    .default('15'), // Per story/topic beyond what the report type includes
+  REPORTER_REPEAT_CLIENT_DISCOUNT: z
+    .string()
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().min(0).max(1))
+    .default('0.1'),
+  REPORTER_BUNDLE_DISCOUNT: z
+    .string()
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().min(0).max(1))
+    .default('0.15'), // 2+ reports quoted together
   REPORTER_SUBSCRIPTION_MONTHLY_PRICE: z
     .string()
     .transform((val) => parseInt(val, 10))
     .pipe(z.number())
     .default('500'),
+
+  // Invoices
+  REPORTER_INVOICE_PREFIX: z.string().default('NR'),
+  REPORTER_INVOICE_CURRENCY: z.string().default('USD'),
+  REPORTER_TAX_RATE: z
+    .string()
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().min(0).max(1))
+    .default('0'), // Added on top of the quoted price
+  REPORTER_INVOICE_FEE: z
+    .string()
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().min(0))
+    .default('0'), // Flat processing fee per invoice
+
+  // Background generation queue
+  REPORTER_GENERATION_CONCURRENCY: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().min(1))
+    .default('2'), // Reports written at the same time
+  REPORTER_GENERATION_MAX_ATTEMPTS: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().min(1))
+    .default('3'), // Per queued report, before it's marked failed
+  REPORTER_FACT_CHECK: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .default('true'), // Check generated claims against the story data before saving
+  REPORTER_WORD_COUNT_TOLERANCE: z
+    .string()
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().min(0).max(1))
+    .default('0.15'), // ± fraction of the target word count, for types that don't set their own
+
+  // Cancellations and delivery deadlines (refunds are fractions of the job price)
+  REPORTER_CANCEL_REFUND_ACCEPTED: z
+    .string()
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().min(0).max(1))
+    .default('1'), // Cancelled before work started
+  REPORTER_CANCEL_REFUND_IN_PROGRESS: z
+    .string()
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().min(0).max(1))
+    .default('0.5'), // Cancelled while the report is being written
+  REPORTER_SLA_GRACE_MINUTES: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().min(0))
+    .default('5'),
+  REPORTER_SLA_BREACH_REFUND: z
+    .string()
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().min(0).max(1))
+    .default('0.25'), // Promised delivery time (plus grace) missed
+  REPORTER_SLA_CANCEL_AFTER_MINUTES: z
+    .string()
+    .transform((val) => parseInt(val, 10))
+    .pipe(z.number().min(0))
+    .default('60'), // Still undelivered this long past the deadline: cancel, full refund (0 = never)
 });
 
 export type NewsReporterConfig = z.infer<typeof newsReporterConfigSchema>;
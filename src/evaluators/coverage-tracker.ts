@@ -45,7 +45,7 @@ export const coverageTrackerEvaluator: Evaluator = {
     }
 
     try {
-      await reporter.recordMention(message.roomId);
+      await reporter.recordMention(message.roomId, message.id);
 
       runtime.logger.debug(
         { scope: 'plugin:newsreporter', roomId: message.roomId },
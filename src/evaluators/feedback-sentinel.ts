@@ -5,7 +5,8 @@ import { NewsReporterService } from '../services/news-reporter-service';
  * Feedback Sentinel Evaluator
  *
  * Detects negative feedback about news sharing and auto-mutes rooms that don't want it.
- * Uses alwaysRun with cheap validate() pre-filter.
+ * Uses alwaysRun with cheap validate() pre-filter; the handler runs the layered classifier
+ * (keyword/context pre-filter → model check) and only strikes above the confidence threshold.
  */
 export const feedbackSentinelEvaluator: Evaluator = {
   name: 'NEWS_FEEDBACK_SENTINEL',
@@ -41,13 +42,34 @@ export const feedbackSentinelEvaluator: Evaluator = {
     }
 
     try {
-      const text = message.content.text || '';
+      // Layered classification: cheap pre-filter, then model check with confidence
+      const verdict = await reporter.classifyFeedback(message);
+      if (verdict.stage === 'prefilter') {
+        return; // No complaint signals -- the common case, not worth logging
+      }
+
+      const strike = reporter.meetsStrikeThreshold(verdict);
+      runtime.logger.info(
+        {
+          scope: 'plugin:newsreporter',
+          roomId: message.roomId,
+          isNegative: verdict.isNegative,
+          confidence: verdict.confidence,
+          stage: verdict.stage,
+          reason: verdict.reason,
+          strike,
+        },
+        'Feedback classified'
+      );
 
-      if (reporter.isNegativeFeedback(text)) {
-        await reporter.recordStrike(message.roomId);
+      if (strike) {
+        await reporter.recordStrike(message.roomId, message.entityId, {
+          confidence: verdict.confidence,
+          reason: verdict.reason,
+        });
 
         runtime.logger.warn(
-          { scope: 'plugin:newsreporter', roomId: message.roomId },
+          { scope: 'plugin:newsreporter', roomId: message.roomId, reason: verdict.reason },
           'Negative feedback detected, strike recorded'
         );
       }
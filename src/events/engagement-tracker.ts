@@ -0,0 +1,43 @@
+import { EventType, type MessagePayload, type PluginEvents } from '@elizaos/core';
+import { NewsReporterService } from '../services/news-reporter-service';
+
+/**
+ * Engagement Tracker (event handlers)
+ *
+ * Credits replies and reactions on the agent's story posts to the archetype used.
+ * Feeds pickArchetype's explore/exploit selection.
+ *
+ * WHY EVENTS (NOT AN EVALUATOR):
+ * - Reactions arrive as REACTION_RECEIVED events and never reach evaluators
+ * - Handling replies in the same place keeps the attribution rule in one spot
+ * - Cheap: only messages with inReplyTo in output rooms touch the service
+ */
+async function trackEngagement(payload: MessagePayload, kind: 'reply' | 'reaction'): Promise<void> {
+  const { runtime, message } = payload;
+
+  // Skip agent's own messages
+  if (message.entityId === runtime.agentId) {
+    return;
+  }
+
+  const inReplyTo = message.content?.inReplyTo;
+  if (!inReplyTo) {
+    return;
+  }
+
+  const reporter = runtime.getService('news-reporter') as unknown as NewsReporterService | null;
+  if (!reporter || !reporter.isOutputRoom(message.roomId)) {
+    return;
+  }
+
+  try {
+    await reporter.recordEngagement(message.roomId, inReplyTo, kind);
+  } catch (error) {
+    runtime.logger.error({ scope: 'plugin:newsreporter', error, kind }, 'Error tracking engagement');
+  }
+}
+
+export const engagementTrackerEvents: PluginEvents = {
+  [EventType.MESSAGE_RECEIVED]: [async (payload: MessagePayload) => trackEngagement(payload, 'reply')],
+  [EventType.REACTION_RECEIVED]: [async (payload: MessagePayload) => trackEngagement(payload, 'reaction')],
+};
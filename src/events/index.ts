@@ -0,0 +1 @@
+export { engagementTrackerEvents } from './engagement-tracker';
@@ -4,14 +4,54 @@ export { NewsReporterService } from './services/news-reporter-service';
 
 // Export types for other plugins to use
 export type {
+  ArchetypeEngagement,
+  ArchetypeStats,
+  CoverageLedgerEntry,
+  RoomIdleStatus,
   OutputRoomConfig,
   CoverageState,
+  DigestConfig,
+  GenerateReportOptions,
   ReportType,
+  BuiltInReportType,
+  ReportJob,
+  ClientProfile,
+  Invoice,
+  InvoicePaymentStatus,
+  InvoiceSummary,
+  JobRefund,
+  QueuedReport,
+  QueuedReportStatus,
+  ReportJobStatus,
+  ReportQuote,
+  ReportQuoteStatus,
+  QuoteResolution,
+  ReportSearchQuery,
+  ReportSearchResult,
   NewsReport,
+  ReportSection,
+  ReportCitation,
+  ReportVerification,
+  ReportLengthControl,
+  CheckedClaim,
+  ClaimVerdict,
+  StoryResolution,
+  PriceBreakdown,
+  PriceLineItem,
+  PricingRequest,
   StoryArchetype,
   ReportTypeMetadata,
+  Story,
+  StoryMomentum,
+  StorySource,
+  StorySourceRef,
+  Subscription,
+  SubscriptionStatus,
 } from './types';
 
+// Export story validation (for story source authors)
+export { storySchema, parseStory, type StoryParseResult } from './story-schema';
+
 // Export config
 export { newsReporterConfigSchema, type NewsReporterConfig } from './config';
 
@@ -21,16 +61,33 @@ export { storyPromptProvider, reporterBusinessProvider } from './providers';
 // Export evaluators
 export { feedbackSentinelEvaluator, coverageTrackerEvaluator } from './evaluators';
 
+// Export event handlers
+export { engagementTrackerEvents } from './events';
+
 // Export actions
 export {
   quoteReportAction,
   acceptReportJobAction,
+  cancelReportJobAction,
   writeArticleAction,
   deliverReportAction,
+  subscribeAction,
+  unsubscribeAction,
+  listSubscriptionsAction,
+  requestRevisionAction,
+  showReportDiffAction,
+  findReportsAction,
+  reportStatusAction,
+  getInvoiceAction,
 } from './actions';
 
 // Export knowledge
-export { getReportMetadata, getAllReportTypes } from './knowledge/report-types';
+export {
+  getReportMetadata,
+  getAllReportTypes,
+  parseCustomReportTypes,
+  findMentionedReportTypes,
+} from './knowledge/report-types';
 export { getPlatformVoice, getPlatformGuidanceText } from './knowledge/platform-voice';
 export {
   getArchetype,
@@ -1,3 +1,4 @@
+import { z } from 'zod';
 import type { ReportTypeMetadata } from '../types';
 
 /**
@@ -11,6 +12,7 @@ export const reportTypes: Record<string, ReportTypeMetadata> = {
     description: 'Quick overview of a developing story with key facts and context',
     basePrice: 50,
     estimatedWordCount: 300,
+    wordCountTolerance: 0.2,
     deliveryTimeMs: 300000, // 5min
     structure: ['headline', 'summary', 'key-points', 'sources'],
     guidance: `Write a concise briefing that captures the essential facts of the story. Focus on:
@@ -28,6 +30,7 @@ Tone: Professional, factual, neutral.`,
     description: 'In-depth exploration of a story with analysis, context, and implications',
     basePrice: 200,
     estimatedWordCount: 1500,
+    wordCountTolerance: 0.1,
     deliveryTimeMs: 1800000, // 30min
     structure: [
       'headline',
@@ -57,6 +60,7 @@ Tone: Insightful, nuanced, thought-provoking. Show deep understanding.`,
     description: 'Analysis of emerging patterns across multiple stories and timeframes',
     basePrice: 150,
     estimatedWordCount: 800,
+    wordCountTolerance: 0.15,
     deliveryTimeMs: 900000, // 15min
     structure: ['headline', 'overview', 'data-points', 'pattern-analysis', 'outlook', 'sources'],
     guidance: `Identify and explain an emerging trend. Focus on:
@@ -75,6 +79,7 @@ Tone: Analytical, data-informed, forward-looking.`,
     description: 'Immediate coverage of developing, high-impact events',
     basePrice: 75,
     estimatedWordCount: 200,
+    wordCountTolerance: 0.25,
     deliveryTimeMs: 120000, // 2min
     structure: ['urgent-headline', 'what-happened', 'what-we-know', 'what-we-dont-know', 'updates'],
     guidance: `Deliver urgent, accurate information quickly. Include:
@@ -93,6 +98,7 @@ Tone: Urgent but responsible. Speed with accuracy.`,
     description: 'Curated digest of the day\'s most important stories',
     basePrice: 100,
     estimatedWordCount: 600,
+    wordCountTolerance: 0.15,
     deliveryTimeMs: 600000, // 10min
     structure: ['intro', 'top-stories', 'developing-stories', 'worth-watching', 'outro'],
     guidance: `Create a cohesive daily narrative from multiple stories. Focus on:
@@ -107,15 +113,83 @@ Tone: Engaging, curator's voice, informative but entertaining.`,
 };
 
 /**
- * Get report metadata by type
+ * Custom report type shape (character.settings.newsreporter.reportTypes)
+ *
+ * IDs are lowercase slugs ("investor-memo") so QUOTE_REPORT can match them in text
+ * the same way as the built-ins.
  */
-export function getReportMetadata(type: string): ReportTypeMetadata | null {
-  return reportTypes[type] || null;
+const customReportTypeSchema = z.object({
+  type: z
+    .string()
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'must be a lowercase slug like "investor-memo"'),
+  name: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  basePrice: z.number().nonnegative(),
+  estimatedWordCount: z.number().int().positive(),
+  wordCountTolerance: z.number().min(0).max(1).optional(),
+  deliveryTimeMs: z.number().int().positive(),
+  structure: z.array(z.string().trim().min(1)).min(1),
+  guidance: z.string().trim().min(1),
+});
+
+/**
+ * Validate operator-defined report types. Invalid entries are dropped with a reason;
+ * built-in IDs can't be redefined (their prices come from REPORTER_*_BASE_PRICE).
+ */
+export function parseCustomReportTypes(raw: unknown): { types: ReportTypeMetadata[]; errors: string[] } {
+  const types: ReportTypeMetadata[] = [];
+  const errors: string[] = [];
+  if (raw === undefined || raw === null) return { types, errors };
+  if (!Array.isArray(raw)) return { types, errors: ['reportTypes must be an array'] };
+
+  raw.forEach((entry, index) => {
+    const result = customReportTypeSchema.safeParse(entry);
+    const label = (entry as { type?: unknown })?.type ?? `#${index}`;
+    if (!result.success) {
+      const issues = result.error.issues.map((i) => `${i.path.join('.') || 'entry'} ${i.message}`);
+      errors.push(`${label}: ${issues.join('; ')}`);
+      return;
+    }
+    if (reportTypes[result.data.type]) {
+      errors.push(`${label}: built-in report types can't be redefined`);
+      return;
+    }
+    if (types.some((t) => t.type === result.data.type)) {
+      errors.push(`${label}: defined more than once`);
+      return;
+    }
+    types.push(result.data);
+  });
+
+  return { types, errors };
+}
+
+/**
+ * Get report metadata by type (built-ins first, then the given custom types)
+ */
+export function getReportMetadata(
+  type: string,
+  customTypes: ReportTypeMetadata[] = []
+): ReportTypeMetadata | null {
+  return reportTypes[type] || customTypes.find((t) => t.type === type) || null;
+}
+
+/**
+ * Get all report types, built-ins first
+ */
+export function getAllReportTypes(customTypes: ReportTypeMetadata[] = []): ReportTypeMetadata[] {
+  return [...Object.values(reportTypes), ...customTypes];
 }
 
 /**
- * Get all report types
+ * Report types mentioned in text by ID ("investor-memo" or "investor memo") or name
  */
-export function getAllReportTypes(): ReportTypeMetadata[] {
-  return Object.values(reportTypes);
+export function findMentionedReportTypes(text: string, types: ReportTypeMetadata[]): ReportTypeMetadata[] {
+  const textLower = text.toLowerCase();
+  return types.filter(
+    (t) =>
+      textLower.includes(t.type) ||
+      textLower.includes(t.type.replace(/-/g, ' ')) ||
+      textLower.includes(t.name.toLowerCase())
+  );
 }
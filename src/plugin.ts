@@ -2,11 +2,23 @@ import type { Plugin } from '@elizaos/core';
 import { NewsReporterService } from './services/news-reporter-service';
 import { storyPromptProvider, reporterBusinessProvider } from './providers';
 import { feedbackSentinelEvaluator, coverageTrackerEvaluator } from './evaluators';
+import { engagementTrackerEvents } from './events';
 import {
   quoteReportAction,
   acceptReportJobAction,
+  cancelReportJobAction,
   writeArticleAction,
   deliverReportAction,
+  subscribeAction,
+  unsubscribeAction,
+  listSubscriptionsAction,
+  markJobPaidAction,
+  requestRevisionAction,
+  showReportDiffAction,
+  findReportsAction,
+  reportStatusAction,
+  getInvoiceAction,
+  invoiceSummaryAction,
 } from './actions';
 import { banner } from './banner';
 
@@ -20,12 +32,13 @@ import { banner } from './banner';
  * - STORY_PROMPT provider: Dynamically adapts per room, surfaces relevant stories
  * - Coverage pump: Ensures regular mentions without spam
  * - Anti-spam safeguards: Cadence, daily caps, strike system, sentiment checks
+ * - Engagement tracking: Replies/reactions per archetype drive pickArchetype()
  *
  * Commerce integration:
  * - Commissioned reports via plugin-commerce
  * - Pricing based on report type
- * - v1: Basic quoting and generation
- * - v2: Full job lifecycle, subscriptions, experience learning
+ * - Job lifecycle: quoted → accepted → in-progress → delivered → paid/cancelled
+ * - Recurring subscriptions (cron-scheduled delivery)
  *
  * No hard dependency on plugin-investigator. Reads from any story-shaped provider data.
  * For maximum composability.
@@ -52,12 +65,26 @@ export const newsreporterPlugin: Plugin = {
     feedbackSentinelEvaluator, // Detects negative feedback, manages strikes
   ],
 
+  // Events: Engagement on story posts (replies + reactions → archetype stats)
+  events: engagementTrackerEvents,
+
   // Actions: Commerce workflow
   actions: [
     quoteReportAction, // Quote price for report
     acceptReportJobAction, // Accept commissioned job
+    cancelReportJobAction, // Cancel before delivery, refund per policy
     writeArticleAction, // Generate report
     deliverReportAction, // Deliver and close job
+    subscribeAction, // Recurring report subscription
+    unsubscribeAction, // Cancel a subscription
+    listSubscriptionsAction, // Requester's active subscriptions
+    markJobPaidAction, // Operator: record a payment taken outside commerce
+    requestRevisionAction, // Targeted rewrite of the client's latest report
+    showReportDiffAction, // Diff between report versions
+    findReportsAction, // Archive search + resend stored reports
+    reportStatusAction, // Queue position / progress of the requester's reports
+    getInvoiceAction, // Requester's invoices (Markdown or JSON)
+    invoiceSummaryAction, // Operator: revenue totals for a period
   ],
 
   // Initialization
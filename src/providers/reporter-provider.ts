@@ -1,12 +1,13 @@
 import type { IAgentRuntime, Memory, Provider, State } from '@elizaos/core';
 import { NewsReporterService } from '../services/news-reporter-service';
-import { getAllReportTypes } from '../knowledge/report-types';
+import { describeClientProfile } from '../services/client-profile';
 
 /**
  * REPORTER_BUSINESS Provider
  *
  * Provides context about the reporter's commerce capabilities.
  * Helps the agent understand what types of reports it can offer and at what price.
+ * When the speaker has a client profile, includes it so replies can be personal.
  */
 export const reporterBusinessProvider: Provider = {
   name: 'REPORTER_BUSINESS',
@@ -19,29 +20,41 @@ export const reporterBusinessProvider: Provider = {
     }
 
     try {
-      const reportTypes = getAllReportTypes();
+      const reportTypes = reporter.getReportTypes();
 
       let text = '# News Reporting Services\n\n';
       text += 'I can provide professional news coverage and analysis:\n\n';
 
       for (const type of reportTypes) {
         text += `**${type.name}** - ${type.description}\n`;
-        text += `  Price: $${type.basePrice} • ${type.estimatedWordCount} words • ~${Math.round(type.deliveryTimeMs / 60000)} min delivery\n\n`;
+        text += `  Price: from $${reporter.getPriceForReportType(type.type)} • ${type.estimatedWordCount} words • ~${Math.round(type.deliveryTimeMs / 60000)} min delivery\n\n`;
       }
 
+      text += 'Rush delivery, longer reports and extra stories cost more; repeat clients and bundles get a discount.\n';
+      text += 'Commissioned reports can be cancelled before delivery; late deliveries are partly credited.\n';
+
       text += '\nI track developing stories across platforms and can deliver timely, accurate reporting tailored to your needs.\n';
 
+      // Returning client: what they usually order and how they like it written
+      const profile = reporter.getClientProfile(message.entityId);
+      const profileLines = profile ? describeClientProfile(profile) : [];
+      if (profileLines.length > 0) {
+        text += `\n## This Client\n\n${profileLines.join('\n')}\n`;
+      }
+
       return {
         text,
         values: {
           reportTypeCount: reportTypes.length,
+          isReturningClient: (profile?.jobCount ?? 0) > 0,
           priceRange: {
-            min: Math.min(...reportTypes.map((t) => t.basePrice)),
-            max: Math.max(...reportTypes.map((t) => t.basePrice)),
+            min: Math.min(...reportTypes.map((t) => reporter.getPriceForReportType(t.type))),
+            max: Math.max(...reportTypes.map((t) => reporter.getPriceForReportType(t.type))),
           },
         },
         data: {
           reportTypes,
+          clientProfile: profile,
         },
       };
     } catch (error) {
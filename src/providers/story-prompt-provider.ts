@@ -1,7 +1,8 @@
 import type { IAgentRuntime, Memory, Provider, State } from '@elizaos/core';
-import { NewsReporterService } from '../services/news-reporter-service';
+import { NewsReporterService, isBreakingStory } from '../services/news-reporter-service';
 import { getPlatformGuidanceText } from '../knowledge/platform-voice';
-import { getArchetype } from '../knowledge/story-archetypes';
+import { getArchetype, suggestArchetype } from '../knowledge/story-archetypes';
+import type { Story } from '../types';
 
 /**
  * STORY_PROMPT Provider
@@ -10,8 +11,11 @@ import { getArchetype } from '../knowledge/story-archetypes';
  * This is NOT dynamic - it's included in every composeState() call, but early-exits cheaply
  * for rooms that aren't configured output rooms.
  *
- * PRIMARY: Reads stories directly from investigator service (avoids provider ordering issues)
- * FALLBACK: Reads from state.data.providers for composability with non-investigator sources
+ * Stories come from the reporter's story-source registry:
+ * - investigator service (read directly, avoids provider ordering issues)
+ * - state.data.providers.NEWS_STORIES (composability with non-investigator sources)
+ * - any source registered by other plugins via registerStorySource()
+ * Malformed stories are rejected (and logged) by the service before they get here.
  */
 export const storyPromptProvider: Provider = {
   name: 'STORY_PROMPT',
@@ -28,63 +32,74 @@ export const storyPromptProvider: Provider = {
       return { text: '', values: {}, data: {} };
     }
 
+    // Quiet hours (room-local time): no story guidance at all, breaking included
+    if (reporter.isInQuietHours(message.roomId, message.createdAt || Date.now())) {
+      return { text: '', values: { quietHours: true }, data: {} };
+    }
+
     try {
       const room = await runtime.getRoom(message.roomId);
 
-      // PRIMARY: read stories directly from investigator service (avoids provider ordering issues)
-      // FALLBACK: read from state.data.providers for composability with non-investigator story sources
-      const investigator = runtime.getService('investigator');
-      let stories: any[];
-
-      if (investigator && typeof (investigator as any).getActiveStories === 'function') {
-        stories = await (investigator as any).getActiveStories();
-      } else {
-        const storiesData = state?.data?.providers?.NEWS_STORIES?.data;
-        stories = storiesData?.stories || [];
-      }
+      // Merged + validated stories from all registered sources, filtered for this room
+      // (sourceFilter + room topics; growing stories bypass the topic filter)
+      const relevantStories = await reporter.getRelevantStories(message.roomId, state);
 
-      if (stories.length === 0) {
+      if (relevantStories.length === 0) {
         return { text: '', values: {}, data: {} };
       }
 
       // Get output room config
       const roomConfig = reporter.getOutputRoomConfig(message.roomId);
-
-      // Filter stories by source if room has a sourceFilter
-      let relevantStories = stories;
-      if (roomConfig?.sourceFilter) {
-        relevantStories = stories.filter((s: any) =>
-          s.sources.some((src: any) => roomConfig.sourceFilter!.includes(src.platform))
-        );
-      }
-
-      // Match stories to room topics (if inferred) -- v2 feature
       const roomTopics = await reporter.getRoomTopics(message.roomId);
-      if (roomTopics.length > 0) {
-        relevantStories = relevantStories.filter(
-          (s: any) =>
-            s.topics.some((t: string) => roomTopics.includes(t)) || s.momentum === 'growing'
-        );
-      }
 
       // Check coverage state
       const coverage = reporter.getCoverageState(message.roomId);
       const gap = coverage ? Date.now() - coverage.lastMentionAt : Infinity;
       const hasGap = gap > (roomConfig?.cadenceMs || 7200000); // 2h default
 
-      // Get platform voice and archetype
+      // Coverage ledger: uncovered stories first; covered stories come back
+      // only as follow-ups once they have materially developed
+      const uncovered: Story[] = [];
+      const followUps = new Map<string, string[]>(); // storyId → developments
+      for (const s of relevantStories) {
+        const entry = reporter.getLastStoryCoverage(message.roomId, s.id);
+        if (!entry) {
+          uncovered.push(s);
+          continue;
+        }
+        const developments = reporter.getStoryDevelopments(entry, s);
+        if (developments.length > 0) {
+          followUps.set(s.id, developments);
+        }
+      }
+      const candidates = [...uncovered, ...relevantStories.filter((s) => followUps.has(s.id))];
+
+      // Idle check: don't drop stories into an active conversation.
+      // The current message is excluded -- someone breaking a silence is the ideal moment.
+      const breaking = candidates.filter(isBreakingStory);
+      const idle = await reporter.getIdleStatus(message.roomId, {
+        now: message.createdAt || Date.now(),
+        excludeMessageId: message.id,
+      });
+      const canInterrupt = idle.isIdle || (breaking.length > 0 && idle.breakingMayInterrupt);
+
+      // Pick the story to suggest: uncovered breaking → follow-up breaking → uncovered → follow-up
+      const best: Story | undefined = breaking[0] || candidates[0];
+      const isFollowUp = best ? followUps.has(best.id) : false;
+
+      // Get platform voice and archetype (follow-ups continue a narrative)
       const platformVoice = getPlatformGuidanceText(room?.source || 'discord');
-      const archetype = roomConfig?.archetype || reporter.pickArchetype(message.roomId);
+      const archetype =
+        roomConfig?.archetype ||
+        (best && isFollowUp
+          ? suggestArchetype(best.momentum, isBreakingStory(best), true)
+          : reporter.pickArchetype(message.roomId));
       const archetypeGuidance = getArchetype(archetype);
 
       // Build guidance
       let text = '';
 
-      const breaking = relevantStories.filter(
-        (s: any) => s.momentum === 'growing' && s.confidence > 0.8
-      );
-
-      if (breaking.length > 0) {
+      if (breaking.length > 0 && canInterrupt) {
         text += '# Breaking Stories\n\n';
         for (const s of breaking.slice(0, 3)) {
           text += `- **${s.title}**: ${s.summary}`;
@@ -94,11 +109,20 @@ export const storyPromptProvider: Provider = {
         text += '\n';
       }
 
-      if (hasGap && relevantStories.length > 0) {
-        const best = breaking[0] || relevantStories[0];
+      const hasOpportunity = hasGap && canInterrupt && !!best;
+      if (hasOpportunity && best) {
         text += `# Storytelling Opportunity\n\n`;
         text += `You haven't shared news in ${roomConfig?.name || 'this channel'} recently.\n`;
-        text += `Consider sharing: "${best.title}" -- ${best.summary}\n`;
+
+        if (isFollowUp) {
+          const lastCoverage = reporter.getLastStoryCoverage(message.roomId, best.id);
+          const hoursAgo = lastCoverage ? Math.round((Date.now() - lastCoverage.coveredAt) / 3600000) : 0;
+          text += `Consider a follow-up on "${best.title}" -- ${best.summary}\n`;
+          text += `You covered this here ~${hoursAgo}h ago. Since then: ${followUps.get(best.id)!.join(', ')}. `;
+          text += `Lead with what's new, don't repeat the original story.\n`;
+        } else {
+          text += `Consider sharing: "${best.title}" -- ${best.summary}\n`;
+        }
 
         if (archetypeGuidance) {
           text += `\n**Suggested approach: ${archetypeGuidance.name}**\n`;
@@ -107,6 +131,9 @@ export const storyPromptProvider: Provider = {
         }
 
         text += '\n';
+
+        // Attribute the agent's next message in this room to this story (coverage ledger)
+        reporter.setPendingStorySuggestion(message.roomId, best, archetype, isFollowUp);
       }
 
       if (platformVoice) {
@@ -118,12 +145,18 @@ export const storyPromptProvider: Provider = {
         values: {
           hasBreaking: breaking.length > 0,
           coverageGap: hasGap,
+          roomIdle: idle.isIdle,
           relevantStoryCount: relevantStories.length,
+          uncoveredStoryCount: uncovered.length,
+          suggestedStoryId: hasOpportunity ? best?.id : undefined,
+          isFollowUp: hasOpportunity && isFollowUp,
         },
         data: {
           relevantStories,
           coverage,
           roomConfig,
+          roomTopics,
+          idle,
           archetype,
         },
       };
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'bun:test';
+import type { UUID } from '@elizaos/core';
+import type { Story } from '../types';
+import { buildSourceEntries, citationsInContent, citeSections, renderBibliography } from './citations';
+
+const whales: Story = {
+  id: 'aaaa1111-0000-4000-8000-000000000001' as UUID,
+  title: 'Babylon whales move into staking',
+  summary: 'Large holders staked 10,000 BTC',
+  sources: [
+    { platform: 'babylon', url: 'https://babylon.example/whales' },
+    { platform: 'twitter', author: '@analyst' },
+  ],
+  topics: ['staking'],
+  entities: ['Babylon'],
+  momentum: 'growing',
+  confidence: 0.9,
+};
+const vote: Story = {
+  id: 'bbbb2222-0000-4000-8000-000000000002' as UUID,
+  title: 'Babylon governance vote passes',
+  summary: 'The fee proposal passed',
+  sources: [{ platform: 'discord' }],
+  topics: ['governance'],
+  entities: ['Babylon'],
+  momentum: 'stable',
+  confidence: 0.8,
+};
+
+describe('buildSourceEntries', () => {
+  it('numbers every source of every story in order', () => {
+    const entries = buildSourceEntries([whales, vote]);
+    expect(entries.map((e) => [e.number, e.story.id, e.platform])).toEqual([
+      [1, whales.id, 'babylon'],
+      [2, whales.id, 'twitter'],
+      [3, vote.id, 'discord'],
+    ]);
+  });
+});
+
+describe('citeSections', () => {
+  const entries = buildSourceEntries([whales, vote]);
+
+  it('renumbers markers in order of first use across sections', () => {
+    const { bodies, citations } = citeSections(
+      {
+        summary: 'The fee vote passed [3]. Whales staked 10,000 BTC [1].',
+        analysis: 'Staking keeps growing [1, 3].',
+      },
+      ['summary', 'analysis'],
+      entries
+    );
+
+    expect(bodies.summary).toBe('The fee vote passed [1]. Whales staked 10,000 BTC [2].');
+    expect(bodies.analysis).toBe('Staking keeps growing [2, 1].');
+    expect(citations.map((c) => [c.number, c.storyId, c.platform])).toEqual([
+      [1, vote.id, 'discord'],
+      [2, whales.id, 'babylon'],
+    ]);
+    expect(citations[1].claims).toEqual([
+      { section: 'summary', text: 'Whales staked 10,000 BTC.' },
+      { section: 'analysis', text: 'Staking keeps growing.' },
+    ]);
+  });
+
+  it('drops invented numbers and tidies the punctuation they leave behind', () => {
+    const { bodies, citations } = citeSections(
+      { summary: 'Fees rose [7]. Whales staked. [2, 9]' },
+      ['summary'],
+      entries
+    );
+
+    expect(bodies.summary).toBe('Fees rose. Whales staked. [1]');
+    expect(citations).toHaveLength(1);
+    expect(citations[0]).toMatchObject({ number: 1, platform: 'twitter', author: '@analyst' });
+    expect(citations[0].claims).toEqual([{ section: 'summary', text: 'Whales staked.' }]);
+  });
+
+  it('drops every marker when no sources were offered', () => {
+    const { bodies, citations } = citeSections({ summary: 'Something happened [1].' }, ['summary'], []);
+    expect(bodies.summary).toBe('Something happened.');
+    expect(citations).toEqual([]);
+  });
+
+  it('only renumbers the sections it is given an order for', () => {
+    const { bodies } = citeSections({ summary: 'A [1].', outlook: 'B [9].' }, ['summary'], entries);
+    expect(bodies.outlook).toBe('B [9].');
+  });
+});
+
+describe('citationsInContent', () => {
+  it('keeps only the citations a revision still references', () => {
+    const { citations } = citeSections({ summary: 'A [1]. B [3].' }, ['summary'], buildSourceEntries([whales, vote]));
+    expect(citationsInContent('Only B now [2].', citations).map((c) => c.number)).toEqual([2]);
+  });
+});
+
+describe('renderBibliography', () => {
+  it('says so when nothing was cited', () => {
+    expect(renderBibliography([])).toBe('_No story sources were cited in this report._');
+  });
+});
@@ -0,0 +1,160 @@
+import type { ReportCitation, Story } from '../types';
+
+/**
+ * Citation helpers (used by NewsReporterService.generateReport / reviseReport)
+ *
+ * The model only ever sees numbered sources taken from the stories (one per story
+ * source ref) and cites them as [n]. Numbers it invents are dropped; the rest are
+ * renumbered in order of first use, so the bibliography reads [1], [2], [3]...
+ */
+
+export interface SourceEntry {
+  number: number; // As offered to the model
+  story: Story;
+  platform: string;
+  url?: string;
+  author?: string;
+  observedAt?: number;
+}
+
+const MAX_CLAIM_LENGTH = 300;
+const CITATION_MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * One numbered entry per story source (a story seen on three platforms gets three)
+ */
+export function buildSourceEntries(stories: Story[]): SourceEntry[] {
+  const entries: SourceEntry[] = [];
+  for (const story of stories) {
+    for (const source of story.sources) {
+      entries.push({ number: entries.length + 1, story, ...source });
+    }
+  }
+  return entries;
+}
+
+function describeSource(entry: { platform: string; url?: string; author?: string }): string {
+  return [entry.platform, entry.author && `by ${entry.author}`, entry.url].filter(Boolean).join(', ');
+}
+
+/**
+ * Stories for the prompt, each with the source numbers the model may cite
+ */
+export function formatStoriesWithSources(stories: Story[], entries: SourceEntry[]): string {
+  return stories
+    .map((story, i) => {
+      const sources = entries
+        .filter((e) => e.story.id === story.id)
+        .map((e) => `[${e.number}] ${describeSource(e)}`)
+        .join('; ');
+      return `${i + 1}. ${story.title}: ${story.summary}\n   Sources: ${sources || 'none'}`;
+    })
+    .join('\n');
+}
+
+/**
+ * The sentence a marker belongs to: what the citation is offered as evidence for.
+ * Markers either close their sentence ("... staked. [1]") or sit inside it ("... staked [1].").
+ */
+function claimAround(text: string, index: number): string {
+  const before = text.slice(0, index).trimEnd();
+  const closesSentence = /[.!?]$/.test(before);
+  const head = closesSentence ? before.slice(0, -1) : before;
+
+  let start = 0;
+  for (const match of head.matchAll(/[.!?]\s+|\n/g)) start = (match.index ?? 0) + match[0].length;
+
+  let end = before.length;
+  if (!closesSentence) {
+    const next = text.slice(index).search(/[.!?](\s|$)|\n/);
+    end = next < 0 ? text.length : index + next + 1;
+  }
+
+  return text
+    .slice(start, end)
+    .replace(CITATION_MARKER, '')
+    .replace(/\s+/g, ' ')
+    .replace(/ ([.,;:!?])/g, '$1')
+    .trim()
+    .slice(0, MAX_CLAIM_LENGTH);
+}
+
+/**
+ * Check and renumber the [n] markers in each section (in report order) against the
+ * offered sources. Unknown numbers are removed from the text.
+ */
+export function citeSections(
+  bodies: Record<string, string>,
+  order: string[],
+  entries: SourceEntry[]
+): { bodies: Record<string, string>; citations: ReportCitation[] } {
+  const byOfferedNumber = new Map(entries.map((e) => [e.number, e]));
+  const renumbered = new Map<number, ReportCitation>();
+  const cited: Record<string, string> = { ...bodies };
+
+  for (const key of order) {
+    const text = bodies[key];
+    if (!text) continue;
+
+    let dropped = false;
+    cited[key] = text.replace(CITATION_MARKER, (_marker: string, list: string, index: number) => {
+      const numbers: number[] = [];
+      for (const offered of list.split(',').map((n) => Number(n.trim()))) {
+        const entry = byOfferedNumber.get(offered);
+        if (!entry) continue;
+
+        let citation = renumbered.get(offered);
+        if (!citation) {
+          citation = {
+            number: renumbered.size + 1,
+            storyId: entry.story.id,
+            storyTitle: entry.story.title,
+            platform: entry.platform,
+            url: entry.url,
+            author: entry.author,
+            observedAt: entry.observedAt,
+            claims: [],
+          };
+          renumbered.set(offered, citation);
+        }
+        const claim = claimAround(text, index);
+        if (claim && !citation.claims.some((c) => c.section === key && c.text === claim)) {
+          citation.claims.push({ section: key, text: claim });
+        }
+        if (!numbers.includes(citation.number)) numbers.push(citation.number);
+      }
+      if (numbers.length === 0) dropped = true;
+      return numbers.length > 0 ? `[${numbers.join(', ')}]` : '';
+    });
+    // Dropped markers leave "word ." behind
+    if (dropped) cited[key] = cited[key].replace(/[ \t]+([.,;:!?])/g, '$1');
+  }
+
+  return { bodies: cited, citations: [...renumbered.values()] };
+}
+
+/**
+ * Citations still referenced in (revised) content
+ */
+export function citationsInContent(content: string, citations: ReportCitation[]): ReportCitation[] {
+  const used = new Set<number>();
+  for (const match of content.matchAll(CITATION_MARKER)) {
+    for (const n of match[1].split(',')) used.add(Number(n.trim()));
+  }
+  return citations.filter((c) => used.has(c.number));
+}
+
+/**
+ * "[1] Babylon whales move into staking -- babylon, by @analyst, https://... (19 Oct 2026)"
+ */
+export function renderBibliography(citations: ReportCitation[]): string {
+  if (citations.length === 0) {
+    return '_No story sources were cited in this report._';
+  }
+  return citations
+    .map((c) => {
+      const date = c.observedAt ? ` (${new Date(c.observedAt).toUTCString().slice(5, 16)})` : '';
+      return `[${c.number}] ${c.storyTitle} -- ${describeSource(c)}${date}`;
+    })
+    .join('\n\n');
+}
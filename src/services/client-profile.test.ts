@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'bun:test';
+import { isStyleFeedback } from './client-profile';
+
+describe('isStyleFeedback', () => {
+  it('keeps feedback about how reports read', () => {
+    expect(isStyleFeedback('Less jargon please, keep it conversational')).toBe(true);
+    expect(isStyleFeedback('Too wordy, make it more concise')).toBe(true);
+    expect(isStyleFeedback('Use bullet points instead of long paragraphs')).toBe(true);
+  });
+
+  it('skips fixes to this one report', () => {
+    expect(isStyleFeedback('The date in the second paragraph is wrong')).toBe(false);
+    expect(isStyleFeedback('Add a section on the governance vote')).toBe(false);
+    expect(isStyleFeedback('It says 5,000 BTC but it was 3,000')).toBe(false);
+    expect(isStyleFeedback('Make the headline more formal')).toBe(false);
+  });
+
+  it('keeps anything the client says applies from now on', () => {
+    expect(isStyleFeedback('Always include the numbers up front')).toBe(true);
+    expect(isStyleFeedback('From now on, skip the outlook section')).toBe(true);
+  });
+});
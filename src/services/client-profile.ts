@@ -0,0 +1,127 @@
+import type { UUID } from '@elizaos/core';
+import type { ClientProfile } from '../types';
+
+/**
+ * Client profile helpers (used by NewsReporterService, QUOTE_REPORT, REPORTER_BUSINESS)
+ *
+ * Preferences are counts, not settings: a client's preferred report types and topics
+ * are simply what they've delivered most. Tone notes come from revision feedback --
+ * the clearest signal of how a client wants things written -- but only feedback about
+ * style: "the date is wrong" fixes one report, "less jargon" applies to all of them.
+ */
+
+const MAX_TONE_NOTES = 5;
+const MAX_TONE_NOTE_LENGTH = 200;
+const MAX_RECENT_JOBS = 20;
+const MAX_TOPIC_LENGTH = 60; // Longer "topics" are whole requests (no "on ..." phrase), not topics
+
+/**
+ * How the report reads: tone, register, length, structure
+ */
+const STYLE_PATTERNS: RegExp[] = [
+  /\b(tone|style|voice|register|wording)\b/,
+  /\b(formal|informal|casual|conversational|professional|friendly|neutral|objective|punchy|dry)\b/,
+  /\b(jargon|technical|plain english|simpler|simple language|accessible)\b/,
+  /\b(concise|wordy|verbose|rambl\w*|fluff|filler|shorter|longer|brief|detailed)\b/,
+  /\b(bullet|bullets|bullet points|headings|paragraphs|emoji\w*|hype|sensational\w*|clickbait)\b/,
+];
+
+/**
+ * Points at something specific in this one report
+ */
+const ONE_OFF_PATTERNS: RegExp[] = [
+  /\d/,
+  /["“”]/,
+  /\b(typo|misspel\w*|wrong|incorrect|inaccurate|mistake|error|missing|outdated)\b/,
+  /\b(this|that|the) (section|paragraph|sentence|quote|headline|title|number|figure|date|name)\b/,
+  /\b(add|remove|delete|mention|include|cover)\b/,
+];
+
+/**
+ * Says the client wants it this way from now on, whatever else it says
+ */
+const STANDING_PATTERNS: RegExp[] = [/\b(always|never|in future|from now on|generally|i prefer|i like my)\b/];
+
+export function createClientProfile(clientId: UUID, now: number): ClientProfile {
+  return {
+    clientId,
+    jobIds: [],
+    jobCount: 0,
+    totalSpend: 0,
+    reportTypeCounts: {},
+    topicCounts: {},
+    toneNotes: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Keys by count, highest first (ties: first seen wins)
+ */
+export function topPreferences(counts: Record<string, number>, limit: number): string[] {
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([key]) => key);
+}
+
+export function withJob(
+  profile: ClientProfile,
+  job: { id: UUID; reportType: string; topic?: string },
+  now: number
+): ClientProfile {
+  const topic = job.topic?.trim().toLowerCase();
+  const countTopic = topic && topic.length <= MAX_TOPIC_LENGTH;
+  return {
+    ...profile,
+    jobIds: [job.id, ...profile.jobIds.filter((id) => id !== job.id)].slice(0, MAX_RECENT_JOBS),
+    jobCount: profile.jobCount + 1,
+    reportTypeCounts: {
+      ...profile.reportTypeCounts,
+      [job.reportType]: (profile.reportTypeCounts[job.reportType] || 0) + 1,
+    },
+    topicCounts: countTopic
+      ? { ...profile.topicCounts, [topic]: (profile.topicCounts[topic] || 0) + 1 }
+      : profile.topicCounts,
+    lastJobAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Whether revision feedback is a standing style preference worth keeping as a tone note
+ */
+export function isStyleFeedback(feedback: string): boolean {
+  const text = feedback.toLowerCase();
+  if (STANDING_PATTERNS.some((p) => p.test(text))) return true;
+  return STYLE_PATTERNS.some((p) => p.test(text)) && !ONE_OFF_PATTERNS.some((p) => p.test(text));
+}
+
+export function withToneNote(profile: ClientProfile, note: string, now: number): ClientProfile {
+  const trimmed = note.trim().slice(0, MAX_TONE_NOTE_LENGTH);
+  if (!trimmed || profile.toneNotes.includes(trimmed)) return profile;
+  return {
+    ...profile,
+    toneNotes: [...profile.toneNotes, trimmed].slice(-MAX_TONE_NOTES),
+    updatedAt: now,
+  };
+}
+
+/**
+ * Profile as prompt/provider lines. Empty if there's nothing worth saying yet.
+ */
+export function describeClientProfile(profile: ClientProfile): string[] {
+  const lines: string[] = [];
+  if (profile.jobCount > 0) {
+    lines.push(`Past commissions: ${profile.jobCount} delivered (total spend $${profile.totalSpend})`);
+  }
+  const types = topPreferences(profile.reportTypeCounts, 3);
+  if (types.length > 0) lines.push(`Preferred report types: ${types.map((t) => t.replace(/-/g, ' ')).join(', ')}`);
+  const topics = topPreferences(profile.topicCounts, 5);
+  if (topics.length > 0) lines.push(`Preferred topics: ${topics.join(', ')}`);
+  if (profile.toneNotes.length > 0) {
+    lines.push(`Tone notes (from past feedback):\n${profile.toneNotes.map((n) => `- ${n}`).join('\n')}`);
+  }
+  return lines;
+}
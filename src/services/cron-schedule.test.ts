@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'bun:test';
+import { getNextCronTime, isValidCron, parseCron, parseSchedule } from './cron-schedule';
+
+const at = (iso: string) => Date.parse(iso);
+
+describe('parseCron', () => {
+  it('accepts lists, ranges, steps and shorthands', () => {
+    expect(isValidCron('0,30 9-17/2 * * 1-5')).toBe(true);
+    expect(isValidCron('@daily')).toBe(true);
+    expect(isValidCron('@WEEKLY')).toBe(true);
+  });
+
+  it('rejects out-of-range values and the wrong number of fields', () => {
+    expect(isValidCron('60 * * * *')).toBe(false);
+    expect(isValidCron('0 24 * * *')).toBe(false);
+    expect(isValidCron('0 9 * *')).toBe(false);
+    expect(isValidCron('*/0 * * * *')).toBe(false);
+    expect(isValidCron('0 9 5-1 * *')).toBe(false);
+  });
+
+  it('treats day-of-week 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7')!.daysOfWeek]).toEqual([0]);
+  });
+});
+
+describe('getNextCronTime', () => {
+  it('is strictly after the given time', () => {
+    const nine = at('2026-10-19T09:00:00Z');
+    expect(getNextCronTime('0 9 * * *', nine)).toBe(at('2026-10-20T09:00:00Z'));
+    expect(getNextCronTime('0 9 * * *', nine - 1)).toBe(nine);
+  });
+
+  it('steps through the hour', () => {
+    expect(getNextCronTime('*/15 * * * *', at('2026-10-19T09:07:30Z'))).toBe(at('2026-10-19T09:15:00Z'));
+  });
+
+  it('skips to the next matching weekday', () => {
+    // Friday evening → Monday 09:00
+    expect(getNextCronTime('0 9 * * 1-5', at('2026-10-23T18:00:00Z'))).toBe(at('2026-10-26T09:00:00Z'));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 1st, or any Monday -- whichever comes first
+    expect(getNextCronTime('0 0 1 * 1', at('2026-10-27T00:00:00Z'))).toBe(at('2026-11-01T00:00:00Z'));
+    expect(getNextCronTime('0 0 1 * 1', at('2026-11-01T00:00:00Z'))).toBe(at('2026-11-02T00:00:00Z'));
+  });
+
+  it('rolls over month and year ends', () => {
+    expect(getNextCronTime('@monthly', at('2026-12-15T12:00:00Z'))).toBe(at('2027-01-01T00:00:00Z'));
+  });
+
+  it('stays on UTC across daylight-saving changes', () => {
+    // Europe and the US change clocks on 2026-03-29 and 2026-03-08; UTC deliveries don't move
+    expect(getNextCronTime('0 9 * * *', at('2026-03-28T10:00:00Z'))).toBe(at('2026-03-29T09:00:00Z'));
+    expect(getNextCronTime('0 9 * * *', at('2026-03-29T10:00:00Z'))).toBe(at('2026-03-30T09:00:00Z'));
+    expect(getNextCronTime('30 1 * * *', at('2026-03-08T00:00:00Z'))).toBe(at('2026-03-08T01:30:00Z'));
+  });
+
+  it('is null for invalid or never-matching expressions', () => {
+    expect(getNextCronTime('not a cron', at('2026-10-19T00:00:00Z'))).toBeNull();
+    expect(getNextCronTime('0 0 31 2 *', at('2026-10-19T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('parseSchedule', () => {
+  it('takes cron written in backticks or double quotes as is', () => {
+    expect(parseSchedule('Subscribe me on `0 9 * * 1-5`')).toBe('0 9 * * 1-5');
+    expect(parseSchedule('subscribe with schedule "30 7 * * *" please')).toBe('30 7 * * *');
+  });
+
+  it('does not read apostrophes as cron delimiters', () => {
+    expect(parseSchedule("I'd want weekly news, it's great")).toBe('weekly');
+    expect(parseSchedule("I'd like a subscription, it's for the team")).toBe('daily');
+  });
+
+  it('falls back to the keywords when the quoted text is not cron', () => {
+    expect(parseSchedule('Weekly please, "the one we talked about last time"')).toBe('weekly');
+    expect(parseSchedule('EVERY WEEK')).toBe('weekly');
+  });
+
+  it('returns invalid quoted cron with no keywords, for the caller to reject', () => {
+    expect(parseSchedule('subscribe on `0 25 * * *`')).toBe('0 25 * * *');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Minimal cron schedule (subscription delivery, and the schedule SUBSCRIBE asks for)
+ *
+ * Standard 5 fields in UTC: minute hour day-of-month month day-of-week.
+ * Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`*\/15`, `0-30/10`) and the
+ * @hourly / @daily / @weekly / @monthly shorthands. Day-of-week 0 and 7 are Sunday.
+ *
+ * WHY not a cron library:
+ * - Subscriptions only need "when is the next delivery"; a full scheduler is overkill
+ * - Keeps the plugin dependency-free beyond elizaOS core
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday = 0
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+// Give up after a year with no match (e.g. "0 0 31 2 *")
+const MAX_SEARCH_MINUTES = 366 * 24 * 60;
+
+function parseField(field: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) return null;
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [a, b] = rangePart.split('-').map(Number);
+      start = a;
+      end = b;
+    } else {
+      start = Number(rangePart);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      return null;
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression. Returns null if it isn't valid.
+ */
+export function parseCron(expression: string): CronSchedule | null {
+  const normalized = SHORTHANDS[expression.trim().toLowerCase()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const minutes = parseField(fields[0], 0, 59);
+  const hours = parseField(fields[1], 0, 23);
+  const daysOfMonth = parseField(fields[2], 1, 31);
+  const months = parseField(fields[3], 1, 12);
+  const daysOfWeek = parseField(fields[4], 0, 7);
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) return null;
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  return parseCron(expression) !== null;
+}
+
+/**
+ * The schedule a subscription request asks for: cron in backticks or double quotes
+ * ("`0 9 * * 1-5`", taken as written), else 'weekly' / 'daily' from the wording (any case).
+ * Apostrophes aren't delimiters -- "I'd like it weekly, it's for work" isn't cron. Quoted
+ * text that isn't valid cron gives way to the keywords, and is only returned (for the
+ * caller to reject) when there are none.
+ */
+export function parseSchedule(text: string): string {
+  const cron = text.match(/[`"]((?:\S+\s+){4}\S+)[`"]/)?.[1];
+  if (cron && isValidCron(cron)) return cron;
+
+  const lower = text.toLowerCase();
+  if (lower.includes('weekly') || lower.includes('every week')) return 'weekly';
+  if (cron && !/\b(daily|every day)\b/.test(lower)) return cron;
+  return 'daily';
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getUTCDay());
+
+  // Cron semantics: if both day fields are restricted, either one matching is enough
+  if (schedule.anyDayOfMonth) return dowMatch;
+  if (schedule.anyDayOfWeek) return domMatch;
+  return domMatch || dowMatch;
+}
+
+/**
+ * Next time (ms, UTC) strictly after `after` that matches the expression,
+ * or null if the expression is invalid or never matches within a year.
+ */
+export function getNextCronTime(expression: string, after: number): number | null {
+  const schedule = parseCron(expression);
+  if (!schedule) return null;
+
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  let searched = 0;
+  while (searched < MAX_SEARCH_MINUTES) {
+    if (!schedule.months.has(date.getUTCMonth() + 1) || !matchesDay(schedule, date)) {
+      // Skip to the start of the next day
+      const minutesLeft = 24 * 60 - (date.getUTCHours() * 60 + date.getUTCMinutes());
+      date.setUTCHours(24, 0, 0, 0);
+      searched += minutesLeft;
+      continue;
+    }
+    if (!schedule.hours.has(date.getUTCHours())) {
+      const minutesLeft = 60 - date.getUTCMinutes();
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      searched += minutesLeft;
+      continue;
+    }
+    if (schedule.minutes.has(date.getUTCMinutes())) {
+      return date.getTime();
+    }
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+    searched += 1;
+  }
+
+  return null;
+}
@@ -0,0 +1,177 @@
+import { parseJSONObjectFromText } from '@elizaos/core';
+import type { CheckedClaim, ClaimVerdict, ReportVerification } from '../types';
+
+/**
+ * Fact-check helpers (used by NewsReporterService.generateReport)
+ *
+ * One model call extracts the draft's factual claims and judges each against the story
+ * data; sections with unsupported or contradicted claims are then rewritten once, and the
+ * rewritten sections are checked again -- a rewrite can miss a problem or add a new one.
+ * Opinion, analysis and outlook aren't claims -- only what the stories could confirm.
+ */
+
+const VERDICTS: ClaimVerdict[] = ['supported', 'unsupported', 'contradicted'];
+const MAX_CLAIMS = 60;
+
+/**
+ * Prompt: extract and judge the factual claims in the draft sections
+ */
+export function buildFactCheckPrompt(
+  storyData: string,
+  bodies: Record<string, string>,
+  keys: string[]
+): string {
+  const draft = keys.map((key) => `[section: ${key}]\n${bodies[key] || ''}`).join('\n\n');
+  return `You are a fact-checker for a news desk. Check a draft report against the story data it was written from.
+
+STORY DATA (the only facts the report may rely on):
+${storyData}
+
+DRAFT REPORT:
+"""
+${draft}
+"""
+
+List every factual claim in the draft: numbers, amounts, dates, names, quotes, and statements that something happened.
+Skip opinion, analysis, predictions and framing.
+Judge each claim against the story data only:
+- "supported": the story data says this
+- "unsupported": the story data doesn't say this
+- "contradicted": the story data says something different
+
+Respond with JSON only:
+{"claims": [{"section": "<section key>", "claim": "<the claim, quoted or closely paraphrased>", "verdict": "supported|unsupported|contradicted", "evidence": "<what the story data says, for unsupported/contradicted>"}]}`;
+}
+
+/**
+ * Parse the checker's response. Null if it isn't usable.
+ */
+export function parseFactCheck(
+  response: string,
+  bodies: Record<string, string>,
+  keys: string[]
+): CheckedClaim[] | null {
+  const parsed = parseJSONObjectFromText(response);
+  if (!parsed || !Array.isArray(parsed.claims)) return null;
+
+  const claims: CheckedClaim[] = [];
+  for (const raw of parsed.claims.slice(0, MAX_CLAIMS)) {
+    if (!raw || typeof raw.claim !== 'string' || !VERDICTS.includes(raw.verdict)) continue;
+    const text = raw.claim.trim();
+    claims.push({
+      text,
+      // Unknown section key: the section whose text contains the claim, if quoted verbatim
+      section: keys.includes(raw.section)
+        ? raw.section
+        : keys.find((key) => bodies[key]?.toLowerCase().includes(text.toLowerCase())),
+      verdict: raw.verdict,
+      evidence: typeof raw.evidence === 'string' && raw.evidence.trim() ? raw.evidence.trim() : undefined,
+      resolution: 'kept',
+    });
+  }
+  return claims;
+}
+
+export function isProblemClaim(claim: CheckedClaim): boolean {
+  return claim.verdict !== 'supported';
+}
+
+/**
+ * Prompt: rewrite one section without its unsupported claims and with its
+ * contradicted ones corrected
+ */
+export function buildCorrectionPrompt(
+  storyData: string,
+  section: string,
+  body: string,
+  problems: CheckedClaim[]
+): string {
+  const list = problems
+    .map((c) => `- [${c.verdict}] ${c.text}${c.evidence ? ` (story data: ${c.evidence})` : ''}`)
+    .join('\n');
+  return `You are correcting the "${section}" section of a news report after a fact-check.
+
+STORY DATA (the only facts the report may rely on):
+${storyData}
+
+SECTION:
+"""
+${body}
+"""
+
+PROBLEMS:
+${list}
+
+Rewrite the section:
+- Correct contradicted claims so they match the story data
+- Remove unsupported claims, or reword them to what the story data actually says
+- Keep everything else, including the [n] citation markers, as it is
+- Don't add new facts
+
+Return only the corrected section text, without a heading.`;
+}
+
+/**
+ * Resolve the problem claims of rewritten sections from the re-check of those sections:
+ * - revised: the rewrite checked clean
+ * - revised-unverified: the re-check couldn't run (recheck null) or still found problems;
+ *   those problems are added to the claims so they're reported
+ * Updates claims in place; returns the claims to add.
+ */
+export function applyRecheck(
+  claims: CheckedClaim[],
+  revisedSections: string[],
+  recheck: CheckedClaim[] | null
+): CheckedClaim[] {
+  const remaining: CheckedClaim[] = [];
+  for (const key of revisedSections) {
+    const left = recheck ? recheck.filter((c) => c.section === key && isProblemClaim(c)) : [];
+    const resolution = recheck && left.length === 0 ? 'revised' : 'revised-unverified';
+    for (const claim of claims) {
+      if (claim.section === key && isProblemClaim(claim)) claim.resolution = resolution;
+    }
+    remaining.push(...left);
+  }
+  return remaining;
+}
+
+/**
+ * Verification summary from the checked claims
+ */
+export function summarizeVerification(
+  claims: CheckedClaim[],
+  revisedSections: string[],
+  checkedAt: number
+): ReportVerification {
+  const count = (verdict: ClaimVerdict) => claims.filter((c) => c.verdict === verdict).length;
+  const problems = claims.filter(isProblemClaim);
+  const status =
+    problems.length === 0
+      ? 'verified'
+      : problems.every((c) => c.resolution === 'revised')
+        ? 'corrected'
+        : 'flagged';
+
+  return {
+    checkedAt,
+    status,
+    claims,
+    supported: count('supported'),
+    unsupported: count('unsupported'),
+    contradicted: count('contradicted'),
+    revisedSections,
+  };
+}
+
+export function skippedVerification(note: string, checkedAt: number): ReportVerification {
+  return {
+    checkedAt,
+    status: 'skipped',
+    claims: [],
+    supported: 0,
+    unsupported: 0,
+    contradicted: 0,
+    revisedSections: [],
+    note,
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  fallbackFeedbackVerdict,
+  parseFeedbackVerdict,
+  prefilterFeedback,
+  type FeedbackContext,
+} from './feedback-classifier';
+
+const CONTEXT: FeedbackContext = { agentName: 'Scoop', repliesToStoryPost: false };
+const REPLY: FeedbackContext = { ...CONTEXT, repliesToStoryPost: true };
+
+describe('prefilterFeedback', () => {
+  it('sends anything with a complaint word to the model, praise and bus stops included', () => {
+    expect(prefilterFeedback("Don't stop posting these!", CONTEXT).pass).toBe(true);
+    expect(prefilterFeedback('Meet me at the bus stop', CONTEXT).pass).toBe(true);
+  });
+
+  it('catches complaints in other languages', () => {
+    expect(prefilterFeedback('Basta ya con tantas noticias', CONTEXT).pass).toBe(true);
+    expect(prefilterFeedback('Хватит уже', CONTEXT).pass).toBe(true);
+    expect(prefilterFeedback('Hör auf damit', CONTEXT).pass).toBe(true);
+  });
+
+  it('passes replies to story posts and mentions of the agent, with no keyword', () => {
+    expect(prefilterFeedback('meh', REPLY).signals).toEqual(['reply to story post']);
+    expect(prefilterFeedback('what does scoop think?', CONTEXT).signals).toEqual(['mentions agent']);
+  });
+
+  it('lets ordinary chat through without a model call', () => {
+    expect(prefilterFeedback('Anyone watching the game tonight?', CONTEXT)).toEqual({ pass: false, signals: [] });
+  });
+});
+
+describe('parseFeedbackVerdict', () => {
+  it('is negative only for a complaint aimed at the agent posts', () => {
+    const verdict = parseFeedbackVerdict(
+      '{"isComplaint": true, "targetsAgentPosts": true, "confidence": 0.9, "reason": "asks to stop posting"}'
+    );
+    expect(verdict).toEqual({
+      isNegative: true,
+      targetsAgent: true,
+      confidence: 0.9,
+      reason: 'asks to stop posting',
+      stage: 'model',
+    });
+
+    const elsewhere = parseFeedbackVerdict('{"isComplaint": true, "targetsAgentPosts": false, "confidence": 0.8}');
+    expect(elsewhere?.isNegative).toBe(false);
+  });
+
+  it('reads a fenced response and clamps the confidence', () => {
+    const verdict = parseFeedbackVerdict('```json\n{"isComplaint": true, "targetsAgentPosts": true, "confidence": 7}\n```');
+    expect(verdict?.confidence).toBe(1);
+    expect(verdict?.reason).toBe('no reason given');
+  });
+
+  it('is null for a malformed response', () => {
+    expect(parseFeedbackVerdict('Yes, that is a complaint.')).toBeNull();
+    expect(parseFeedbackVerdict('{"isComplaint": "yes", "confidence": 0.9}')).toBeNull();
+    expect(parseFeedbackVerdict('{"isComplaint": true, "confidence": 0.9')).toBeNull();
+  });
+});
+
+describe('fallbackFeedbackVerdict', () => {
+  it('counts explicit, directed phrases only', () => {
+    expect(fallbackFeedbackVerdict('Please stop posting this stuff', REPLY)).toMatchObject({
+      isNegative: true,
+      confidence: 0.8,
+      stage: 'fallback',
+    });
+    expect(fallbackFeedbackVerdict('stop spamming the channel', CONTEXT).confidence).toBe(0.6);
+  });
+
+  it('does not count praise, bus stops or non-English complaints', () => {
+    expect(fallbackFeedbackVerdict("Don't stop posting these!", REPLY).isNegative).toBe(false);
+    expect(fallbackFeedbackVerdict('Meet me at the bus stop', CONTEXT).isNegative).toBe(false);
+    expect(fallbackFeedbackVerdict('Basta ya con tantas noticias', REPLY).isNegative).toBe(false);
+  });
+});
@@ -0,0 +1,157 @@
+import { parseJSONObjectFromText } from '@elizaos/core';
+import type { FeedbackVerdict } from '../types';
+
+/**
+ * Negative-feedback classifier helpers (used by NewsReporterService.classifyFeedback)
+ *
+ * Layer 1 (pre-filter): cheap, runs on every human message in output rooms.
+ *   Decides whether the message is worth a model call -- it never records a strike.
+ * Layer 2 (model): decides whether the message is a complaint aimed at the agent's
+ *   news posts, with a confidence score.
+ */
+
+/**
+ * Complaint signals, matched on word boundaries ("bus stop" still matches "stop" --
+ * that's fine, the model rejects it; the pre-filter only has to be cheap and permissive).
+ * Includes common non-English complaints so they reach the model at all.
+ */
+const COMPLAINT_PATTERNS: RegExp[] = [
+  /\bstop\b/,
+  /\benough\b/,
+  /\btoo much\b/,
+  /\bspam\w*/,
+  /\bannoying\b/,
+  /\bshut up\b/,
+  /\bquiet\b/,
+  /\bmute\b/,
+  /\bdon'?t care\b/,
+  /\bnot interested\b/,
+  /\bnoise\b/,
+  /\bunsubscribe\b/,
+  /\bbasta\b/, // es/it
+  /\bpara de\b/, // es/pt
+  /\bc[aá]llate\b/, // es
+  /\barr[eê]te\b/, // fr
+  /(^|\s)ça suffit/, // fr
+  /\bh[oö]r auf\b/, // de
+  /\bnervig\b/, // de
+  /хватит|спам/, // ru
+  /うるさい|スパム/, // ja
+  /闭嘴|别发|刷屏/, // zh
+];
+
+/**
+ * Phrases that are directed and unambiguous enough to stand on their own when
+ * the model is unavailable (fallback verdict). "Don't stop posting" is praise.
+ */
+const EXPLICIT_COMPLAINT_PATTERNS: RegExp[] = [
+  /(?<!\b(don['’]?t|do not|never) )\bstop (posting|spamming|sharing|with the)\b/,
+  /\bspamm(ing|er)\b/,
+  /\bshut up\b/,
+  /\btoo much (news|spam|posting)\b/,
+  /\bnobody asked\b/,
+];
+
+export interface FeedbackContext {
+  agentName: string;
+  repliesToStoryPost: boolean; // message.content.inReplyTo is one of the agent's story posts
+  lastStoryTitle?: string; // Most recent story the agent posted in this room
+}
+
+export interface PrefilterResult {
+  pass: boolean;
+  signals: string[];
+}
+
+/**
+ * Layer 1: Should this message go to the model?
+ * Passes on any complaint keyword, a reply to a story post, or a mention of the agent.
+ */
+export function prefilterFeedback(text: string, context: FeedbackContext): PrefilterResult {
+  const textLower = text.toLowerCase();
+  const signals: string[] = [];
+
+  const keyword = COMPLAINT_PATTERNS.find((pattern) => pattern.test(textLower));
+  if (keyword) signals.push(`keyword ${keyword.source}`);
+  if (context.repliesToStoryPost) signals.push('reply to story post');
+  if (context.agentName && textLower.includes(context.agentName.toLowerCase())) {
+    signals.push('mentions agent');
+  }
+
+  return { pass: signals.length > 0, signals };
+}
+
+/**
+ * Layer 2 prompt: complaint aimed at the agent's news posts?
+ */
+export function buildFeedbackPrompt(text: string, context: FeedbackContext): string {
+  return `You moderate feedback for ${context.agentName}, an AI news reporter that posts stories in a community chat.
+${context.lastStoryTitle ? `Its most recent post in this room was about: "${context.lastStoryTitle}"\n` : ''}${context.repliesToStoryPost ? 'This message is a direct reply to one of its news posts.\n' : ''}
+Message (may be in any language):
+"""${text}"""
+
+Is this message a complaint asking ${context.agentName} to post less news, stop posting, or go away?
+- Praise or requests for MORE posts ("don't stop posting these!") are NOT complaints
+- Complaints about other people, topics, or things ("the bus stop", "stop the price drop") are NOT complaints about the agent
+- Disagreeing with a story's content is NOT a request to stop posting
+
+Respond with JSON only:
+{"isComplaint": true|false, "targetsAgentPosts": true|false, "confidence": 0.0-1.0, "reason": "short explanation"}`;
+}
+
+/**
+ * Core's JSON normalizer quotes bare values, so booleans can arrive as "true"/"false"
+ */
+function readBoolean(value: unknown): boolean | undefined {
+  if (value === true || value === 'true') return true;
+  if (value === false || value === 'false') return false;
+  return undefined;
+}
+
+/**
+ * Parse the model's verdict. Returns null if the response isn't usable.
+ */
+export function parseFeedbackVerdict(response: string): FeedbackVerdict | null {
+  const parsed = parseJSONObjectFromText(response);
+  const isComplaint = parsed ? readBoolean(parsed.isComplaint) : undefined;
+  if (!parsed || isComplaint === undefined) {
+    return null;
+  }
+
+  const confidence = Number(parsed.confidence);
+  const targetsAgent = readBoolean(parsed.targetsAgentPosts) === true;
+
+  return {
+    isNegative: isComplaint && targetsAgent,
+    targetsAgent,
+    confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0,
+    reason: typeof parsed.reason === 'string' ? parsed.reason : 'no reason given',
+    stage: 'model',
+  };
+}
+
+/**
+ * Verdict when the model is unavailable: only explicit, directed phrases count.
+ */
+export function fallbackFeedbackVerdict(text: string, context: FeedbackContext): FeedbackVerdict {
+  const textLower = text.toLowerCase();
+  const explicit = EXPLICIT_COMPLAINT_PATTERNS.find((pattern) => pattern.test(textLower));
+
+  if (!explicit) {
+    return {
+      isNegative: false,
+      targetsAgent: false,
+      confidence: 0,
+      reason: 'model unavailable, no explicit complaint phrase',
+      stage: 'fallback',
+    };
+  }
+
+  return {
+    isNegative: true,
+    targetsAgent: true,
+    confidence: context.repliesToStoryPost ? 0.8 : 0.6,
+    reason: `model unavailable, explicit phrase ${explicit.source}`,
+    stage: 'fallback',
+  };
+}
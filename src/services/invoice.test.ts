@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'bun:test';
+import type { UUID } from '@elizaos/core';
+import type { Invoice, ReportJob } from '../types';
+import {
+  buildInvoice,
+  formatInvoiceNumber,
+  parseInvoiceSequence,
+  renderInvoiceSummaryMarkdown,
+  summarizeInvoices,
+  withPayment,
+} from './invoice';
+
+const CONFIG = { prefix: 'NR', currency: 'USD', taxRate: 0.1, fee: 2 };
+
+function makeJob(overrides: Partial<ReportJob> = {}): ReportJob {
+  return {
+    id: '3f9a2c1e-0000-4000-8000-000000000001' as UUID,
+    clientId: '00000000-0000-4000-8000-00000000c11e' as UUID,
+    roomId: '00000000-0000-4000-8000-000000000100' as UUID,
+    reportType: 'deep-dive',
+    price: 200,
+    brief: 'Deep dive on Babylon whales',
+    storyIds: [],
+    status: 'delivered',
+    statusHistory: [{ status: 'delivered', at: 1000 }],
+    createdAt: 1000,
+    updatedAt: 1000,
+    ...overrides,
+  };
+}
+
+function makeInvoice(job: ReportJob, now = 1000): Invoice {
+  return buildInvoice(job, { id: `${job.id}-inv` as UUID, number: 'NR-2026-0001', now }, CONFIG);
+}
+
+describe('invoice numbers', () => {
+  it('round-trips the sequence for the same prefix and year only', () => {
+    const number = formatInvoiceNumber('NR', 2026, 42);
+    expect(number).toBe('NR-2026-0042');
+    expect(parseInvoiceSequence(number, 'NR', 2026)).toBe(42);
+    expect(parseInvoiceSequence(number, 'NR', 2027)).toBe(0);
+    expect(parseInvoiceSequence(number, 'XX', 2026)).toBe(0);
+  });
+});
+
+describe('buildInvoice', () => {
+  it('adds tax and fees to the quoted price', () => {
+    const invoice = makeInvoice(makeJob());
+    expect(invoice.subtotal).toBe(200);
+    expect(invoice.tax).toBe(20);
+    expect(invoice.total).toBe(222);
+    expect(invoice.amountDue).toBe(222);
+    expect(invoice.paymentStatus).toBe('unpaid');
+  });
+});
+
+describe('withPayment', () => {
+  it('marks the invoice paid with the job payment time', () => {
+    const job = makeJob();
+    const paid = withPayment(makeInvoice(job), { ...job, status: 'paid', paidAt: 5000 }, 6000);
+    expect(paid.paymentStatus).toBe('paid');
+    expect(paid.paidAt).toBe(5000);
+    expect(paid.amountDue).toBe(0);
+  });
+
+  it('takes waivers off the amount due of an unpaid invoice', () => {
+    const job = makeJob();
+    const waived = withPayment(
+      makeInvoice(job),
+      { ...job, waivers: [{ amount: 50, reason: 'sla-breach', at: 2000 }] },
+      3000
+    );
+    expect(waived.waived).toBe(50);
+    expect(waived.amountDue).toBe(172);
+    expect(waived.paymentStatus).toBe('unpaid');
+  });
+
+  it('is refunded only once what was paid has come back', () => {
+    const job = makeJob({ status: 'paid', paidAt: 2000 });
+    const partly = withPayment(
+      makeInvoice(job),
+      { ...job, refunds: [{ amount: 50, reason: 'client-cancelled', at: 3000, settledBy: 'manual' }] },
+      3000
+    );
+    expect(partly.paymentStatus).toBe('paid');
+
+    const fully = withPayment(
+      makeInvoice(job),
+      { ...job, refunds: [{ amount: 200, reason: 'client-cancelled', at: 3000, settledBy: 'manual' }] },
+      3000
+    );
+    expect(fully.paymentStatus).toBe('refunded');
+    expect(fully.amountDue).toBe(0);
+  });
+});
+
+describe('summarizeInvoices', () => {
+  const paidJob = makeJob({ status: 'paid', paidAt: 2000 });
+  const paid = withPayment(makeInvoice(paidJob, 1000), paidJob, 2000);
+  const lateJob = makeJob({
+    id: '3f9a2c1e-0000-4000-8000-000000000002' as UUID,
+    reportType: 'briefing',
+    price: 100,
+    waivers: [{ amount: 25, reason: 'sla-breach', at: 1500 }],
+  });
+  const unpaid = withPayment(makeInvoice(lateJob, 1500), lateJob, 1500);
+  const outside = makeInvoice(makeJob(), 99_000);
+
+  it('totals invoices issued within the period', () => {
+    const summary = summarizeInvoices([paid, unpaid, outside], 0, 10_000, 'USD');
+
+    expect(summary.invoiceCount).toBe(2);
+    expect(summary.subtotal).toBe(300);
+    expect(summary.tax).toBe(30);
+    expect(summary.fees).toBe(4);
+    expect(summary.waived).toBe(25);
+    expect(summary.net).toBe(309); // 222 + (112 - 25)
+    expect(summary.paid).toBe(222);
+    expect(summary.outstanding).toBe(87);
+    expect(summary.byReportType).toEqual({
+      'deep-dive': { count: 1, net: 222 },
+      briefing: { count: 1, net: 87 },
+    });
+  });
+
+  it('reads invoices saved before waivers existed as unwaived', () => {
+    const { waived: _waived, ...legacy } = paid;
+    const summary = summarizeInvoices([legacy as Invoice], 0, 10_000, 'USD');
+    expect(summary.waived).toBe(0);
+    expect(summary.net).toBe(222);
+  });
+
+  it('is empty for a period without invoices', () => {
+    const summary = summarizeInvoices([paid], 50_000, 60_000, 'USD');
+    expect(summary.invoiceCount).toBe(0);
+    expect(summary.net).toBe(0);
+    expect(renderInvoiceSummaryMarkdown(summary)).toContain('| Invoices | 0 |');
+  });
+});
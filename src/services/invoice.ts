@@ -0,0 +1,212 @@
+import type { UUID } from '@elizaos/core';
+import type { Invoice, InvoiceSummary, PriceLineItem, ReportJob } from '../types';
+import { round2 } from './pricing';
+import { refundedAmount, waivedAmount } from './job-settlement';
+
+/**
+ * Invoice documents (used by NewsReporterService, GET_INVOICE and INVOICE_SUMMARY)
+ *
+ * An invoice is a snapshot of the job at delivery: the quoted line items plus tax and
+ * fees. Only payment status, waivers and refunds change afterwards, so the document a
+ * client received stays the document on file.
+ */
+
+export interface InvoiceConfig {
+  prefix: string;
+  currency: string;
+  taxRate: number;
+  fee: number; // Flat, per invoice
+}
+
+/**
+ * "NR-2026-0042": prefix, year of issue, sequence within that year
+ */
+export function formatInvoiceNumber(prefix: string, year: number, sequence: number): string {
+  return `${prefix}-${year}-${String(sequence).padStart(4, '0')}`;
+}
+
+/**
+ * Sequence part of an invoice number for `year`, or 0 if it's from another year/prefix
+ */
+export function parseInvoiceSequence(number: string, prefix: string, year: number): number {
+  const match = number.match(/^(.+)-(\d{4})-(\d+)$/);
+  if (!match || match[1] !== prefix || Number(match[2]) !== year) return 0;
+  return Number(match[3]);
+}
+
+export function buildInvoice(
+  job: ReportJob,
+  params: { id: UUID; number: string; now: number },
+  config: InvoiceConfig
+): Invoice {
+  const lineItems: PriceLineItem[] = job.priceBreakdown?.lineItems.length
+    ? job.priceBreakdown.lineItems
+    : [{ label: job.reportType.replace(/-/g, ' '), amount: job.price }];
+  const subtotal = round2(job.price);
+  const tax = round2(subtotal * config.taxRate);
+  const fees: PriceLineItem[] = config.fee > 0 ? [{ label: 'Processing fee', amount: config.fee }] : [];
+  const total = round2(subtotal + tax + fees.reduce((sum, f) => sum + f.amount, 0));
+
+  return withPayment(
+    {
+      id: params.id,
+      number: params.number,
+      jobId: job.id,
+      reportId: job.reportId,
+      clientId: job.clientId,
+      roomId: job.roomId,
+      reportType: job.reportType,
+      currency: config.currency,
+      lineItems,
+      subtotal,
+      taxRate: config.taxRate,
+      tax,
+      fees,
+      total,
+      waived: 0,
+      refunded: 0,
+      amountDue: total,
+      paymentStatus: 'unpaid',
+      issuedAt: params.now,
+      updatedAt: params.now,
+    },
+    job,
+    params.now
+  );
+}
+
+/**
+ * Payment status, waivers and refunds from the job's current state
+ */
+export function withPayment(invoice: Invoice, job: ReportJob, now: number): Invoice {
+  const paid = job.status === 'paid' || !!job.paidAt;
+  const waived = waivedAmount(job);
+  const refunded = refundedAmount(job);
+  const paymentStatus: Invoice['paymentStatus'] =
+    paid && refunded > 0 && refunded >= invoice.subtotal - waived ? 'refunded' : paid ? 'paid' : 'unpaid';
+
+  return {
+    ...invoice,
+    waived,
+    refunded,
+    amountDue: paymentStatus === 'unpaid' ? round2(Math.max(0, invoice.total - waived)) : 0,
+    paymentStatus,
+    paidAt: paid ? (job.paidAt ?? invoice.paidAt ?? now) : invoice.paidAt,
+    updatedAt: now,
+  };
+}
+
+function money(amount: number, currency: string): string {
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}${Math.abs(amount).toFixed(2)} ${currency}`;
+}
+
+export function renderInvoiceMarkdown(invoice: Invoice): string {
+  const rows = [
+    ...invoice.lineItems.map((item) => `| ${item.label} | ${money(item.amount, invoice.currency)} |`),
+    `| **Subtotal** | ${money(invoice.subtotal, invoice.currency)} |`,
+  ];
+  if (invoice.tax > 0) {
+    rows.push(`| Tax (${round2(invoice.taxRate * 100)}%) | ${money(invoice.tax, invoice.currency)} |`);
+  }
+  for (const fee of invoice.fees) rows.push(`| ${fee.label} | ${money(fee.amount, invoice.currency)} |`);
+  rows.push(`| **Total** | ${money(invoice.total, invoice.currency)} |`);
+  if (invoice.waived > 0) rows.push(`| Waived | ${money(-invoice.waived, invoice.currency)} |`);
+  if (invoice.refunded > 0) rows.push(`| Refunded | ${money(-invoice.refunded, invoice.currency)} |`);
+  rows.push(`| **Amount due** | ${money(invoice.amountDue, invoice.currency)} |`);
+
+  const status =
+    invoice.paymentStatus === 'paid' && invoice.paidAt
+      ? `paid (${new Date(invoice.paidAt).toUTCString()})`
+      : invoice.paymentStatus;
+
+  return `# Invoice ${invoice.number}
+
+- Issued: ${new Date(invoice.issuedAt).toUTCString()}
+- Client: ${invoice.clientId}
+- Report: ${invoice.reportType.replace(/-/g, ' ')}${invoice.reportId ? ` (report ${invoice.reportId})` : ''}
+- Job: ${invoice.jobId}
+- Payment status: ${status}
+
+| Item | Amount |
+| --- | ---: |
+${rows.join('\n')}`;
+}
+
+export function renderInvoiceJson(invoice: Invoice): string {
+  return JSON.stringify(invoice, null, 2);
+}
+
+/**
+ * Period totals for operators (INVOICE_SUMMARY)
+ */
+export function renderInvoiceSummaryMarkdown(summary: InvoiceSummary): string {
+  const { currency } = summary;
+  const day = (at: number) => new Date(at).toUTCString().slice(5, 16);
+  const rows = [
+    `| Invoices | ${summary.invoiceCount} |`,
+    `| Subtotal | ${money(summary.subtotal, currency)} |`,
+    `| Tax | ${money(summary.tax, currency)} |`,
+    `| Fees | ${money(summary.fees, currency)} |`,
+    `| Waived | ${money(-summary.waived, currency)} |`,
+    `| Refunded | ${money(-summary.refunded, currency)} |`,
+    `| **Net** | ${money(summary.net, currency)} |`,
+    `| Paid | ${money(summary.paid, currency)} |`,
+    `| Outstanding | ${money(summary.outstanding, currency)} |`,
+  ];
+  const byType = Object.entries(summary.byReportType)
+    .sort((a, b) => b[1].net - a[1].net)
+    .map(([type, t]) => `- ${type.replace(/-/g, ' ')}: ${t.count} invoice(s), ${money(t.net, currency)} net`);
+
+  return `# Invoices ${day(summary.from)} – ${day(summary.to)}
+
+| | Amount |
+| --- | ---: |
+${rows.join('\n')}${byType.length > 0 ? `\n\n**By report type:**\n${byType.join('\n')}` : ''}`;
+}
+
+/**
+ * Totals for invoices issued in [from, to]
+ */
+export function summarizeInvoices(invoices: Invoice[], from: number, to: number, currency: string): InvoiceSummary {
+  const summary: InvoiceSummary = {
+    from,
+    to,
+    currency,
+    invoiceCount: 0,
+    subtotal: 0,
+    tax: 0,
+    fees: 0,
+    waived: 0,
+    refunded: 0,
+    net: 0,
+    paid: 0,
+    outstanding: 0,
+    byReportType: {},
+  };
+
+  for (const invoice of invoices) {
+    if (invoice.issuedAt < from || invoice.issuedAt > to) continue;
+    // Older invoices predate waivers
+    const waived = invoice.waived ?? 0;
+    const net = invoice.total - waived - invoice.refunded;
+
+    summary.invoiceCount++;
+    summary.subtotal += invoice.subtotal;
+    summary.tax += invoice.tax;
+    summary.fees += invoice.fees.reduce((sum, f) => sum + f.amount, 0);
+    summary.waived += waived;
+    summary.refunded += invoice.refunded;
+    summary.net += net;
+    if (invoice.paymentStatus === 'paid') summary.paid += net;
+    summary.outstanding += invoice.amountDue;
+
+    const byType = summary.byReportType[invoice.reportType] || { count: 0, net: 0 };
+    summary.byReportType[invoice.reportType] = { count: byType.count + 1, net: round2(byType.net + net) };
+  }
+
+  for (const key of ['subtotal', 'tax', 'fees', 'waived', 'refunded', 'net', 'paid', 'outstanding'] as const) {
+    summary[key] = round2(summary[key]);
+  }
+  return summary;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'bun:test';
+import type { UUID } from '@elizaos/core';
+import type { ReportJob } from '../types';
+import { amountOwed, chargedAmount, planSettlement, refundedAmount, waivedAmount } from './job-settlement';
+
+function makeJob(overrides: Partial<ReportJob> = {}): ReportJob {
+  return {
+    id: '3f9a2c1e-0000-4000-8000-000000000001' as UUID,
+    clientId: '00000000-0000-4000-8000-00000000c11e' as UUID,
+    roomId: '00000000-0000-4000-8000-000000000100' as UUID,
+    reportType: 'deep-dive',
+    price: 200,
+    brief: 'Deep dive on Babylon whales',
+    storyIds: [],
+    status: 'accepted',
+    statusHistory: [{ status: 'accepted', at: 1000 }],
+    createdAt: 1000,
+    updatedAt: 1000,
+    ...overrides,
+  };
+}
+
+describe('planSettlement', () => {
+  it('waives the credit on an unpaid job instead of refunding it', () => {
+    expect(planSettlement(makeJob(), 0.25)).toEqual({ refund: 0, waiver: 50 });
+  });
+
+  it('refunds the credit on a job paid upfront', () => {
+    expect(planSettlement(makeJob({ paidAt: 2000 }), 0.5)).toEqual({ refund: 100, waiver: 0 });
+  });
+
+  it('tops earlier credits up to the share instead of adding to them', () => {
+    const breached = makeJob({ waivers: [{ amount: 50, reason: 'sla-breach', at: 2000 }] });
+    expect(planSettlement(breached, 1)).toEqual({ refund: 0, waiver: 150 });
+  });
+
+  it('never credits more than the price', () => {
+    const credited = makeJob({ waivers: [{ amount: 200, reason: 'client-cancelled', at: 2000 }] });
+    expect(planSettlement(credited, 1)).toEqual({ refund: 0, waiver: 0 });
+    expect(planSettlement(makeJob(), 3)).toEqual({ refund: 0, waiver: 200 });
+  });
+
+  it('refunds at most what was paid: a waiver before payment lowers the charge', () => {
+    const job = makeJob({
+      paidAt: 3000,
+      waivers: [{ amount: 50, reason: 'sla-breach', at: 2000 }],
+      refunds: [{ amount: 100, reason: 'client-cancelled', at: 4000, settledBy: 'manual' }],
+    });
+    expect(chargedAmount(job)).toBe(150);
+    expect(planSettlement(job, 1)).toEqual({ refund: 50, waiver: 0 });
+    expect(refundedAmount(job) + waivedAmount(job) + planSettlement(job, 1).refund).toBe(job.price);
+  });
+
+  it('ignores a share of zero or less', () => {
+    expect(planSettlement(makeJob(), 0)).toEqual({ refund: 0, waiver: 0 });
+    expect(planSettlement(makeJob(), -1)).toEqual({ refund: 0, waiver: 0 });
+  });
+});
+
+describe('amountOwed', () => {
+  it('is the price less waivers until paid, then nothing', () => {
+    const job = makeJob({ waivers: [{ amount: 100, reason: 'client-cancelled', at: 2000 }] });
+    expect(amountOwed(job)).toBe(100);
+    expect(amountOwed({ ...job, paidAt: 3000 })).toBe(0);
+    expect(chargedAmount(job)).toBe(0);
+  });
+});
@@ -0,0 +1,47 @@
+import type { ReportJob } from '../types';
+import { round2 } from './pricing';
+
+/**
+ * Job money helpers (used by NewsReporterService, CANCEL_REPORT_JOB and MARK_JOB_PAID)
+ *
+ * Nothing is charged when a job is accepted: the client pays once payment is confirmed
+ * (job.paidAt), usually after delivery. So a cancellation or late-delivery credit is a
+ * refund only up to what was actually paid; the rest is waived -- taken off what the
+ * client owes, on the job and on its invoice. Refunds and waivers together never exceed
+ * the price.
+ */
+
+export function refundedAmount(job: ReportJob): number {
+  return round2((job.refunds || []).reduce((sum, r) => sum + r.amount, 0));
+}
+
+export function waivedAmount(job: ReportJob): number {
+  return round2((job.waivers || []).reduce((sum, w) => sum + w.amount, 0));
+}
+
+/**
+ * What the client actually paid: the price less what was waived before paying
+ */
+export function chargedAmount(job: ReportJob): number {
+  return job.paidAt ? round2(Math.max(0, job.price - waivedAmount(job))) : 0;
+}
+
+/**
+ * What the client still has to pay (0 once paid)
+ */
+export function amountOwed(job: ReportJob): number {
+  return job.paidAt ? 0 : round2(Math.max(0, job.price - waivedAmount(job)));
+}
+
+/**
+ * Split the credit that brings the job's refunds + waivers up to `share` of its price:
+ * refund what was paid and not yet refunded, waive the rest
+ */
+export function planSettlement(job: ReportJob, share: number): { refund: number; waiver: number } {
+  const target = round2(job.price * Math.min(1, Math.max(0, share)));
+  const credit = round2(target - refundedAmount(job) - waivedAmount(job));
+  if (credit <= 0) return { refund: 0, waiver: 0 };
+
+  const refund = round2(Math.min(credit, Math.max(0, chargedAmount(job) - refundedAmount(job))));
+  return { refund, waiver: round2(credit - refund) };
+}
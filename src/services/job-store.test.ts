@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'bun:test';
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import type { ReportJob } from '../types';
+import { createLocalJobStore, resolveJobStore, transitionedJob } from './job-store';
+
+function makeJob(overrides: Partial<ReportJob> = {}): ReportJob {
+  return {
+    id: '3f9a2c1e-0000-4000-8000-000000000001' as UUID,
+    clientId: '00000000-0000-4000-8000-00000000c11e' as UUID,
+    roomId: '00000000-0000-4000-8000-0000000000r0' as UUID,
+    reportType: 'deep-dive',
+    price: 200,
+    brief: 'Deep dive on Babylon whales',
+    storyIds: [],
+    status: 'delivered',
+    statusHistory: [{ status: 'delivered', at: 1000 }],
+    createdAt: 1000,
+    updatedAt: 1000,
+    ...overrides,
+  };
+}
+
+function runtimeWith(commerce: unknown): IAgentRuntime {
+  return { getService: () => commerce } as unknown as IAgentRuntime;
+}
+
+describe('transitionedJob', () => {
+  it('moves a delivered job to paid with its payment details', () => {
+    const paid = transitionedJob(makeJob(), 'paid', { paidAt: 5000, paidBy: 'operator' }, 6000);
+
+    expect(paid.status).toBe('paid');
+    expect(paid.paidAt).toBe(5000);
+    expect(paid.paidBy).toBe('operator');
+    expect(paid.updatedAt).toBe(6000);
+    expect(paid.statusHistory.map((h) => h.status)).toEqual(['delivered', 'paid']);
+  });
+
+  it('refuses to mark a job paid before delivery', () => {
+    expect(() => transitionedJob(makeJob({ status: 'in-progress' }), 'paid', {}, 6000)).toThrow(
+      'cannot go from in-progress to paid'
+    );
+  });
+
+  it('refuses to mark a job paid twice', () => {
+    expect(() => transitionedJob(makeJob({ status: 'paid' }), 'paid', {}, 6000)).toThrow();
+  });
+});
+
+describe('job store payment confirmation', () => {
+  it('never confirms payment without commerce', async () => {
+    expect(await createLocalJobStore().payment(makeJob())).toBeNull();
+  });
+
+  it('confirms payment once commerce marks its record paid', async () => {
+    const records = new Map<string, { id: string; status?: string; paidAt?: number; metadata?: Record<string, unknown> }>();
+    const commerce = {
+      createJob: async (job: { id: string; status: string; metadata?: Record<string, unknown> }) => {
+        records.set(job.id, { id: job.id, status: job.status, metadata: job.metadata });
+      },
+      updateJob: async (id: string, updates: { status?: string }) => {
+        records.set(id, { ...records.get(id)!, ...updates });
+      },
+      getJob: async (id: string) => records.get(id) || null,
+    };
+    const store = resolveJobStore(runtimeWith(commerce), { jobs: new Map(), persist: async () => {} });
+    const job = makeJob();
+    await store.save(job);
+
+    expect(store.backend).toBe('commerce');
+    expect(await store.payment(job)).toBeNull();
+
+    records.set(job.id, { ...records.get(job.id)!, status: 'paid', paidAt: 7000 });
+    expect(await store.payment(job)).toEqual({ paidAt: 7000 });
+  });
+});
+
+describe('local job store', () => {
+  it('serves the jobs it was loaded with and writes every save through', async () => {
+    const loaded = makeJob();
+    const writes: Array<[string, boolean]> = [];
+    const store = resolveJobStore(runtimeWith(null), {
+      jobs: new Map([[loaded.id, loaded]]),
+      persist: async (job, isNew) => {
+        writes.push([job.status, isNew]);
+      },
+    });
+
+    expect(store.backend).toBe('local');
+    expect(await store.get(loaded.id)).toEqual(loaded);
+
+    await store.save({ ...loaded, status: 'paid' });
+    const fresh = makeJob({ id: '3f9a2c1e-0000-4000-8000-000000000002' as UUID, status: 'quoted' });
+    await store.save(fresh);
+
+    expect(writes).toEqual([
+      ['paid', false],
+      ['quoted', true],
+    ]);
+    expect((await store.list({ status: 'paid' })).map((j) => j.id)).toEqual([loaded.id]);
+  });
+});
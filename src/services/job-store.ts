@@ -0,0 +1,208 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import type { JobRefund, ReportJob, ReportJobStatus } from '../types';
+
+/**
+ * Commissioned-job storage (used by NewsReporterService)
+ *
+ * - plugin-commerce present (with a job API): jobs are persisted there, so billing and
+ *   the reporter agree on one record
+ * - Otherwise: local store, persisted by the service (reporter_jobs) and loaded on start.
+ *   Queue entries, quotes, subscriptions and invoices point at job IDs, so jobs have to
+ *   survive a restart as well.
+ *
+ * Refunds (only ever of what was paid, see job-settlement.ts) go through commerce's
+ * refundJob when it has one; anything else is recorded on the job for the operator to settle.
+ *
+ * Payment is confirmed by commerce on its own record (status 'paid' or a paidAt); the
+ * reporter polls delivered jobs for it. Without commerce an operator marks jobs paid.
+ */
+
+/**
+ * Allowed job status transitions. in-progress → accepted lets a failed generation be retried.
+ */
+export const JOB_TRANSITIONS: Record<ReportJobStatus, ReportJobStatus[]> = {
+  quoted: ['accepted', 'cancelled'],
+  accepted: ['in-progress', 'cancelled'],
+  'in-progress': ['delivered', 'accepted', 'cancelled'],
+  delivered: ['paid'],
+  paid: [],
+  cancelled: [],
+};
+
+/**
+ * The job after a status change (history appended)
+ * @throws Error if JOB_TRANSITIONS doesn't allow it
+ */
+export function transitionedJob(
+  job: ReportJob,
+  status: ReportJobStatus,
+  updates: Partial<ReportJob>,
+  now: number
+): ReportJob {
+  if (!JOB_TRANSITIONS[job.status].includes(status)) {
+    throw new Error(`Job ${job.id} cannot go from ${job.status} to ${status}`);
+  }
+  return {
+    ...job,
+    ...updates,
+    status,
+    statusHistory: [...job.statusHistory, { status, at: now }],
+    updatedAt: now,
+  };
+}
+
+export interface ReportJobFilter {
+  clientId?: UUID;
+  roomId?: UUID;
+  status?: ReportJobStatus | ReportJobStatus[];
+}
+
+export interface ReportJobStore {
+  readonly backend: 'commerce' | 'local';
+  save(job: ReportJob): Promise<void>;
+  get(jobId: UUID): Promise<ReportJob | null>;
+  list(filter?: ReportJobFilter): Promise<ReportJob[]>; // Newest first
+  payment(job: ReportJob): Promise<{ paidAt: number } | null>; // Confirmed by the backend, if any
+  refund(job: ReportJob, amount: number, reason: JobRefund['reason']): Promise<JobRefund['settledBy']>;
+}
+
+/**
+ * The part of plugin-commerce's job API the reporter uses.
+ * Duck-typed: the reporter has no compile-time dependency on plugin-commerce.
+ */
+interface CommerceJobApi {
+  createJob(job: {
+    id: string;
+    type: string;
+    clientId: string;
+    price: number;
+    status: string;
+    metadata?: Record<string, unknown>;
+  }): Promise<unknown>;
+  updateJob(id: string, updates: { status?: string; metadata?: Record<string, unknown> }): Promise<unknown>;
+  getJob?(
+    id: string
+  ): Promise<{ id: string; status?: string; paidAt?: number; metadata?: Record<string, unknown> } | null>;
+  listJobs?(filter: { type?: string }): Promise<Array<{ id: string; metadata?: Record<string, unknown> }>>;
+  refundJob?(id: string, refund: { amount: number; reason: string }): Promise<unknown>;
+}
+
+const COMMERCE_JOB_TYPE = 'newsreporter-report';
+
+function matchesFilter(job: ReportJob, filter: ReportJobFilter): boolean {
+  if (filter.clientId && job.clientId !== filter.clientId) return false;
+  if (filter.roomId && job.roomId !== filter.roomId) return false;
+  if (filter.status) {
+    const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+    if (!statuses.includes(job.status)) return false;
+  }
+  return true;
+}
+
+function sortNewestFirst(jobs: ReportJob[]): ReportJob[] {
+  return jobs.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Local store over `jobs` (loaded by the caller); `persist` writes each save through
+ */
+export function createLocalJobStore(
+  jobs = new Map<string, ReportJob>(),
+  persist?: (job: ReportJob, isNew: boolean) => Promise<void>
+): ReportJobStore {
+  return {
+    backend: 'local',
+    save: async (job) => {
+      const isNew = !jobs.has(job.id);
+      jobs.set(job.id, job);
+      await persist?.(job, isNew);
+    },
+    get: async (jobId) => jobs.get(jobId) || null,
+    list: async (filter = {}) => sortNewestFirst([...jobs.values()].filter((j) => matchesFilter(j, filter))),
+    payment: async () => null,
+    refund: async () => 'manual',
+  };
+}
+
+/**
+ * Commerce-backed store. The full ReportJob rides along in the commerce job's metadata;
+ * a local cache serves reads so providers and validators don't hit commerce every message.
+ */
+function createCommerceJobStore(commerce: CommerceJobApi): ReportJobStore {
+  const cache = new Map<string, ReportJob>();
+  let loaded = false;
+
+  const fromCommerce = (record: { metadata?: Record<string, unknown> } | null): ReportJob | null => {
+    const job = record?.metadata?.reportJob as ReportJob | undefined;
+    return job?.id ? job : null;
+  };
+
+  const loadAll = async () => {
+    if (loaded || typeof commerce.listJobs !== 'function') return;
+    loaded = true;
+    for (const record of (await commerce.listJobs({ type: COMMERCE_JOB_TYPE })) || []) {
+      const job = fromCommerce(record);
+      if (job && !cache.has(job.id)) cache.set(job.id, job);
+    }
+  };
+
+  return {
+    backend: 'commerce',
+    save: async (job) => {
+      const isNew = !cache.has(job.id) && !(await commerce.getJob?.(job.id));
+      cache.set(job.id, job);
+
+      if (isNew) {
+        await commerce.createJob({
+          id: job.id,
+          type: COMMERCE_JOB_TYPE,
+          clientId: job.clientId,
+          price: job.price,
+          status: job.status,
+          metadata: { reportJob: job },
+        });
+      } else {
+        await commerce.updateJob(job.id, { status: job.status, metadata: { reportJob: job } });
+      }
+    },
+    get: async (jobId) => {
+      const cached = cache.get(jobId);
+      if (cached) return cached;
+
+      const job = fromCommerce((await commerce.getJob?.(jobId)) || null);
+      if (job) cache.set(job.id, job);
+      return job;
+    },
+    list: async (filter = {}) => {
+      await loadAll();
+      return sortNewestFirst([...cache.values()].filter((j) => matchesFilter(j, filter)));
+    },
+    payment: async (job) => {
+      // The record, not the cache: commerce updates its own status when payment clears
+      const record = await commerce.getJob?.(job.id);
+      if (!record) return null;
+      if (typeof record.paidAt === 'number') return { paidAt: record.paidAt };
+      return record.status === 'paid' ? { paidAt: Date.now() } : null;
+    },
+    refund: async (job, amount, reason) => {
+      if (typeof commerce.refundJob !== 'function') return 'manual';
+      await commerce.refundJob(job.id, { amount, reason });
+      return 'commerce';
+    },
+  };
+}
+
+/**
+ * Pick the job store: commerce if its service exposes createJob/updateJob, else local
+ * (over the jobs the service loaded, persisted through `persist`).
+ */
+export function resolveJobStore(
+  runtime: IAgentRuntime,
+  local: { jobs: Map<string, ReportJob>; persist: (job: ReportJob, isNew: boolean) => Promise<void> }
+): ReportJobStore {
+  const commerce = runtime.getService('commerce') as unknown as Partial<CommerceJobApi> | null;
+  if (commerce && typeof commerce.createJob === 'function' && typeof commerce.updateJob === 'function') {
+    return createCommerceJobStore(commerce as CommerceJobApi);
+  }
+  return createLocalJobStore(local.jobs, local.persist);
+}
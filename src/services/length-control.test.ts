@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'bun:test';
+import { countBodyWords, lengthBand, planLengthAdjustments, summarizeLength } from './length-control';
+
+function words(n: number): string {
+  return Array(n).fill('word').join(' ');
+}
+
+describe('countBodyWords', () => {
+  it('does not count citation markers', () => {
+    expect(countBodyWords('Whales staked 10,000 BTC [1, 2] today [3]')).toBe(5);
+    expect(countBodyWords('  ')).toBe(0);
+  });
+});
+
+describe('planLengthAdjustments', () => {
+  const keys = ['summary', 'analysis'];
+  const budgets = { summary: 100, analysis: 200 };
+  const band = lengthBand(300, 0.1);
+
+  it('leaves a draft inside the band alone', () => {
+    const bodies = { summary: words(100), analysis: words(190) };
+    expect(planLengthAdjustments(bodies, keys, budgets, band, 300)).toEqual([]);
+  });
+
+  it('expands the short sections of a short draft', () => {
+    const bodies = { summary: words(40), analysis: words(200) };
+    expect(planLengthAdjustments(bodies, keys, budgets, band, 300)).toEqual([
+      { section: 'summary', action: 'expanded', targetWords: 100 },
+    ]);
+  });
+
+  it('condenses the long sections of a long draft', () => {
+    const bodies = { summary: words(100), analysis: words(400) };
+    expect(planLengthAdjustments(bodies, keys, budgets, band, 300)).toEqual([
+      { section: 'analysis', action: 'condensed', targetWords: 200 },
+    ]);
+  });
+
+  it('takes the furthest sections first and stops once the gap is covered', () => {
+    const four = ['a', 'b', 'c', 'd'];
+    const even = { a: 75, b: 75, c: 75, d: 75 };
+    // 230 words, 70 short of the target: a (60 short) and b (30 short) cover it, c isn't needed
+    const bodies = { a: words(15), b: words(45), c: words(70), d: words(100) };
+    expect(planLengthAdjustments(bodies, four, even, band, 300).map((a) => a.section)).toEqual(['a', 'b']);
+  });
+});
+
+describe('summarizeLength', () => {
+  it('records the band and the deviation from the target', () => {
+    const summary = summarizeLength(1000, 0.1, 600, 920, []);
+    expect(summary).toMatchObject({ minWords: 900, maxWords: 1100, deviation: -0.08, withinTolerance: true });
+    expect(summarizeLength(1000, 0.1, 600, 850, []).withinTolerance).toBe(false);
+  });
+});
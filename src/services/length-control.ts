@@ -0,0 +1,117 @@
+import type { ReportLengthControl } from '../types';
+
+/**
+ * Length control helpers (used by NewsReporterService.generateReport)
+ *
+ * The target is a band, not a number: estimatedWordCount (or the client's requested
+ * length) ± the report type's tolerance. A draft outside the band is fixed where it
+ * went wrong -- the sections furthest from their share of the target are expanded or
+ * condensed back to it -- instead of rewriting the whole report.
+ */
+
+export interface LengthAdjustment {
+  section: string;
+  action: 'expanded' | 'condensed';
+  targetWords: number;
+}
+
+/**
+ * Words in a section body, not counting [n] citation markers
+ */
+export function countBodyWords(text: string): number {
+  const trimmed = text.replace(/\[\d+(?:\s*,\s*\d+)*\]/g, ' ').trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+export function totalWords(bodies: Record<string, string>, keys: string[]): number {
+  return keys.reduce((sum, key) => sum + countBodyWords(bodies[key] || ''), 0);
+}
+
+export function lengthBand(targetWordCount: number, tolerance: number): { minWords: number; maxWords: number } {
+  return {
+    minWords: Math.floor(targetWordCount * (1 - tolerance)),
+    maxWords: Math.ceil(targetWordCount * (1 + tolerance)),
+  };
+}
+
+/**
+ * Sections to fix, furthest from their budget first, until their combined gap covers
+ * the report's distance from its target. Empty when the draft is within the band.
+ */
+export function planLengthAdjustments(
+  bodies: Record<string, string>,
+  keys: string[],
+  budgets: Record<string, number>,
+  band: { minWords: number; maxWords: number },
+  targetWordCount: number
+): LengthAdjustment[] {
+  const total = totalWords(bodies, keys);
+  if (total >= band.minWords && total <= band.maxWords) return [];
+
+  const expand = total < band.minWords;
+  const candidates = keys
+    .map((key) => ({ key, gap: budgets[key] - countBodyWords(bodies[key] || '') }))
+    .filter((c) => (expand ? c.gap > 0 : c.gap < 0))
+    .sort((a, b) => Math.abs(b.gap) - Math.abs(a.gap));
+
+  const adjustments: LengthAdjustment[] = [];
+  let remaining = Math.abs(targetWordCount - total);
+  for (const candidate of candidates) {
+    if (remaining <= 0) break;
+    adjustments.push({
+      section: candidate.key,
+      action: expand ? 'expanded' : 'condensed',
+      targetWords: budgets[candidate.key],
+    });
+    remaining -= Math.abs(candidate.gap);
+  }
+  return adjustments;
+}
+
+/**
+ * Prompt: bring one section to its word budget without changing what it says
+ */
+export function buildLengthPrompt(
+  brief: string,
+  section: string,
+  body: string,
+  adjustment: LengthAdjustment
+): string {
+  const instructions =
+    adjustment.action === 'expanded'
+      ? `Expand it to about ${adjustment.targetWords} words: add depth, context and explanation drawn from the stories above. Don't invent facts, numbers or quotes.`
+      : `Condense it to about ${adjustment.targetWords} words: keep the most important facts and cut repetition and filler.`;
+
+  return `${brief}
+
+You are adjusting the length of the "${section}" section of this report (currently ${countBodyWords(body)} words).
+
+SECTION:
+"""
+${body}
+"""
+
+${instructions}
+Keep the [n] citation markers with the facts they back. Return only the section text, without a heading.`;
+}
+
+export function summarizeLength(
+  targetWordCount: number,
+  tolerance: number,
+  draftWordCount: number,
+  finalWordCount: number,
+  adjustments: ReportLengthControl['adjustments']
+): ReportLengthControl {
+  const { minWords, maxWords } = lengthBand(targetWordCount, tolerance);
+  return {
+    targetWordCount,
+    tolerance,
+    minWords,
+    maxWords,
+    draftWordCount,
+    finalWordCount,
+    deviation: Math.round(((finalWordCount - targetWordCount) / targetWordCount) * 1000) / 1000,
+    withinTolerance: finalWordCount >= minWords && finalWordCount <= maxWords,
+    adjustments,
+  };
+}
@@ -1,18 +1,186 @@
 import {
   type IAgentRuntime,
   type Memory,
+  type State,
   type UUID,
   Service,
   ModelType,
   MemoryType,
+  Role,
   createUniqueUuid,
 } from '@elizaos/core';
 import { v4 as uuidv4 } from 'uuid';
-import type { CoverageState, OutputRoomConfig, NewsReport, ReportType, StoryArchetype } from '../types';
-import { getReportMetadata } from '../knowledge/report-types';
-import { pickRandomArchetype } from '../knowledge/story-archetypes';
+import type {
+  ArchetypeEngagement,
+  ArchetypeStats,
+  CoverageLedgerEntry,
+  CoverageState,
+  FeedbackVerdict,
+  GenerateReportOptions,
+  OutputRoomConfig,
+  PriceBreakdown,
+  PricingRequest,
+  QuoteResolution,
+  ClientProfile,
+  Invoice,
+  InvoicePaymentStatus,
+  InvoiceSummary,
+  JobCreditReason,
+  JobRefund,
+  QueuedReport,
+  QueuedReportStatus,
+  ReportJob,
+  ReportJobStatus,
+  ReportQuote,
+  ReportQuoteStatus,
+  ReportSearchQuery,
+  ReportSearchResult,
+  StrikeRecord,
+  NewsReport,
+  CheckedClaim,
+  ReportCitation,
+  ReportSection,
+  ReportType,
+  StoryResolution,
+  ReportLengthControl,
+  ReportTypeMetadata,
+  ReportVerification,
+  RoomIdleStatus,
+  Story,
+  StoryArchetype,
+  StorySource,
+  Subscription,
+} from '../types';
+import { getAllReportTypes, getReportMetadata, parseCustomReportTypes } from '../knowledge/report-types';
+import { getPlatformGuidanceText } from '../knowledge/platform-voice';
+import { getAllArchetypes, pickRandomArchetype } from '../knowledge/story-archetypes';
+import { parseStory } from '../story-schema';
+import { createInvestigatorStorySource, newsStoriesProviderSource } from './story-sources';
+import {
+  buildFeedbackPrompt,
+  fallbackFeedbackVerdict,
+  parseFeedbackVerdict,
+  prefilterFeedback,
+  type FeedbackContext,
+} from './feedback-classifier';
+import { getNextCronTime, isValidCron } from './cron-schedule';
+import {
+  JOB_TRANSITIONS,
+  resolveJobStore,
+  transitionedJob,
+  type ReportJobFilter,
+  type ReportJobStore,
+} from './job-store';
+import { calculatePrice, getIncludedStories, round2 } from './pricing';
+import { amountOwed, chargedAmount, planSettlement, refundedAmount, waivedAmount } from './job-settlement';
+import { clearWinner, extractTerms, matchStories } from './story-matcher';
+import {
+  buildInvoice,
+  formatInvoiceNumber,
+  parseInvoiceSequence,
+  renderInvoiceMarkdown,
+  summarizeInvoices,
+  withPayment,
+  type InvoiceConfig,
+} from './invoice';
+import {
+  createClientProfile,
+  describeClientProfile,
+  isStyleFeedback,
+  topPreferences,
+  withJob,
+  withToneNote,
+} from './client-profile';
+import { diffLines, formatDiff } from './report-diff';
+import {
+  assembleSections,
+  isHeadlineSection,
+  isSourcesSection,
+  locateSections,
+  parseOutline,
+  sectionHeading,
+  sectionWordBudgets,
+  stripSectionHeading,
+} from './report-sections';
+import {
+  buildSourceEntries,
+  citationsInContent,
+  citeSections,
+  formatStoriesWithSources,
+  renderBibliography,
+  type SourceEntry,
+} from './citations';
+import {
+  applyRecheck,
+  buildCorrectionPrompt,
+  buildFactCheckPrompt,
+  isProblemClaim,
+  parseFactCheck,
+  skippedVerification,
+  summarizeVerification,
+} from './fact-check';
+import {
+  buildLengthPrompt,
+  countBodyWords,
+  lengthBand,
+  planLengthAdjustments,
+  summarizeLength,
+  totalWords,
+} from './length-control';
 
 const LOG_SCOPE = 'plugin:newsreporter';
+const MIN_MESSAGES_FOR_TOPIC_INFERENCE = 5;
+const IDLE_LOOKBACK_MESSAGE_COUNT = 20;
+const LEDGER_RETENTION_MS = 14 * 24 * 60 * 60 * 1000; // 14 days
+const PENDING_SUGGESTION_TTL_MS = 30 * 60 * 1000; // Suggestion → agent reply window
+const STORY_CHOICE_TTL_MS = 10 * 60 * 1000; // "Which story?" → requester reply window
+const MAX_STORY_CANDIDATES = 5;
+const FOLLOWUP_CONFIDENCE_DELTA = 0.2;
+const FOLLOWUP_NEW_SOURCES = 2;
+const DIGEST_CHECK_INTERVAL_MS = 15 * 60 * 1000; // Digest hour is checked every 15min
+const SUBSCRIPTION_CHECK_INTERVAL_MS = 5 * 60 * 1000; // Cron schedules resolve to ~5min
+const SUBSCRIPTION_DEFAULT_DURATION_MS = 30 * 24 * 60 * 60 * 1000; // 1 month
+const SUBSCRIPTION_MAX_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000; // Oldest stories a delivery covers
+const PAYMENT_SYNC_INTERVAL_MS = 5 * 60 * 1000; // Commerce payment confirmations
+const ARCHETYPE_MIN_SAMPLES = 3; // Posts per archetype before exploiting its score
+const RUSH_DELIVERY_FACTOR = 0.5; // Rush jobs are promised in half the usual time
+const REPORT_SEARCH_SCAN_LIMIT = 1000; // Most recent reports considered by searchReports
+const REPORT_SEARCH_MAX_PAGE = 50;
+const QUOTE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // Quotes older than this aren't loaded
+const JOB_DEADLINE_CHECK_INTERVAL_MS = 60 * 1000; // Promised delivery times are minutes apart
+const GENERATION_QUEUE_CHECK_INTERVAL_MS = 30 * 1000; // Retries and restart recovery; new entries start at once
+const GENERATION_QUEUE_RETENTION_MS = 24 * 60 * 60 * 1000; // Finished entries kept for status questions
+const GENERATION_TASK_NAME = 'NEWS_GENERATE_REPORT';
+const LENGTH_CONTROL_MAX_ROUNDS = 2; // Expand/condense passes before accepting the deviation
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Breaking = growing momentum with a proven signal (confidence > 0.8)
+ */
+export function isBreakingStory(story: Story): boolean {
+  return story.momentum === 'growing' && story.confidence > 0.8;
+}
+
+/**
+ * Loose topic match: inferred topics are free-text phrases ("babylon staking"),
+ * story topics are tags ("staking"), so containment either way counts.
+ */
+function matchesRoomTopics(story: Story, roomTopics: string[]): boolean {
+  const topics = roomTopics.map((t) => t.toLowerCase());
+  return story.topics.some((storyTopic) => {
+    const t = storyTopic.toLowerCase();
+    if (t.length === 0) return false;
+    return topics.some((roomTopic) => roomTopic === t || roomTopic.includes(t) || t.includes(roomTopic));
+  });
+}
 
 /**
  * NewsReporterService - The Editorial Output Desk
@@ -54,21 +222,95 @@ export class NewsReporterService extends Service {
     coverageCheckMs: number;
     defaultCadenceMs: number;
     breakingOverride: boolean;
+    roomTopicsTtlMs: number;
+    roomTopicsMessageCount: number;
     minIdleBeforeNudgeMs: number;
+    breakingMinIdleMs: number;
+    archetypeExplorationRate: number;
     dailyMentionCap: number;
+    feedbackConfidenceThreshold: number;
     strikeMuteHours: number;
     strikeDecayHours: number;
+    strikeMuteDistinctUsers: number;
+    strikeMuteWindowHours: number;
     briefingBasePrice: number;
     deepdiveBasePrice: number;
+    rushMultiplier: number;
+    extraStoryPrice: number;
+    repeatClientDiscount: number;
+    bundleDiscount: number;
+    quoteExpiryHours: number;
+    freeRevisions: number;
     subscriptionMonthlyPrice: number;
+    cancelRefundAccepted: number;
+    cancelRefundInProgress: number;
+    slaGraceMinutes: number;
+    slaBreachRefund: number;
+    slaCancelAfterMinutes: number;
+    generationConcurrency: number;
+    generationMaxAttempts: number;
+    factCheck: boolean;
+    wordCountTolerance: number;
+    invoicePrefix: string;
+    invoiceCurrency: string;
+    taxRate: number;
+    invoiceFee: number;
+    dailyDigestEnabled: boolean;
+    dailyDigestHourUtc: number;
   };
 
   // In-memory coverage state cache
   private coverageStateCache = new Map<string, CoverageState>();
 
+  // Operator-defined report types (loaded from character settings), after the built-ins
+  private customReportTypes: ReportTypeMetadata[] = [];
+
   // Output room configurations (loaded from character settings)
   private outputRooms = new Map<string, OutputRoomConfig>();
 
+  // Price quotes, keyed by quote ID (last 7 days)
+  private quotes = new Map<string, ReportQuote>();
+
+  // Commissioned jobs (commerce-backed or local), resolved on first use
+  private jobStore: ReportJobStore | null = null;
+
+  // Local store's jobs (reporter_jobs), loaded on start; unused when plugin-commerce keeps them
+  private localJobs = new Map<string, ReportJob>();
+
+  // Recurring report subscriptions, keyed by subscription ID (all statuses)
+  private subscriptions = new Map<string, Subscription>();
+
+  // Client accounts, keyed by client entity ID
+  private clientProfiles = new Map<string, ClientProfile>();
+
+  // Last invoice number issued this year (numbers are assigned synchronously, so
+  // concurrent deliveries can't share one)
+  private invoiceSequence = { year: 0, sequence: 0 };
+
+  // Queued reports being written right now (task IDs), capped by generationConcurrency
+  private runningGenerations = new Set<string>();
+
+  // Registered story sources (investigator, feeds, other plugins), keyed by name
+  private storySources = new Map<string, StorySource>();
+
+  // Rejections already logged at warn level (provider runs on every message)
+  private loggedStoryRejections = new Set<string>();
+
+  // Per-room coverage ledger (which stories were covered where), keyed by roomId
+  private coverageLedger = new Map<string, CoverageLedgerEntry[]>();
+
+  // Stories WRITE_ARTICLE offered to choose from, keyed by `${roomId}:${entityId}`
+  private pendingStoryChoices = new Map<
+    string,
+    { reportType: ReportType; brief: string; candidates: Story[]; askedAt: number }
+  >();
+
+  // Story STORY_PROMPT last suggested per room, awaiting the agent's reply
+  private pendingSuggestions = new Map<
+    string,
+    { story: Story; archetype: StoryArchetype; isFollowUp: boolean; suggestedAt: number }
+  >();
+
   constructor(runtime?: IAgentRuntime, cfg?: Record<string, unknown>) {
     super(runtime);
     const c = cfg || {};
@@ -76,13 +318,41 @@ export class NewsReporterService extends Service {
       coverageCheckMs: (c.REPORTER_COVERAGE_CHECK_MS as number) || 1800000,
       defaultCadenceMs: (c.REPORTER_DEFAULT_CADENCE_MS as number) || 7200000,
       breakingOverride: c.REPORTER_BREAKING_OVERRIDE !== false,
+      roomTopicsTtlMs: (c.REPORTER_ROOM_TOPICS_TTL_MS as number) || 86400000,
+      roomTopicsMessageCount: (c.REPORTER_ROOM_TOPICS_MESSAGE_COUNT as number) || 100,
       minIdleBeforeNudgeMs: (c.REPORTER_MIN_IDLE_BEFORE_NUDGE_MS as number) || 1800000,
+      breakingMinIdleMs: (c.REPORTER_BREAKING_MIN_IDLE_MS as number) || 300000,
+      archetypeExplorationRate: (c.REPORTER_ARCHETYPE_EXPLORATION_RATE as number) ?? 0.2,
       dailyMentionCap: (c.REPORTER_DAILY_MENTION_CAP as number) || 15,
+      feedbackConfidenceThreshold: (c.REPORTER_FEEDBACK_CONFIDENCE_THRESHOLD as number) ?? 0.7,
       strikeMuteHours: (c.REPORTER_STRIKE_MUTE_HOURS as number) || 24,
       strikeDecayHours: (c.REPORTER_STRIKE_DECAY_HOURS as number) || 48,
+      strikeMuteDistinctUsers: (c.REPORTER_STRIKE_MUTE_DISTINCT_USERS as number) || 2,
+      strikeMuteWindowHours: (c.REPORTER_STRIKE_MUTE_WINDOW_HOURS as number) || 24,
       briefingBasePrice: (c.REPORTER_BRIEFING_BASE_PRICE as number) || 50,
       deepdiveBasePrice: (c.REPORTER_DEEPDIVE_BASE_PRICE as number) || 200,
+      rushMultiplier: (c.REPORTER_RUSH_MULTIPLIER as number) || 1.5,
+      extraStoryPrice: (c.REPORTER_EXTRA_STORY_PRICE as number) ?? 15,
+      repeatClientDiscount: (c.REPORTER_REPEAT_CLIENT_DISCOUNT as number) ?? 0.1,
+      bundleDiscount: (c.REPORTER_BUNDLE_DISCOUNT as number) ?? 0.15,
+      quoteExpiryHours: (c.REPORTER_QUOTE_EXPIRY_HOURS as number) || 24,
+      freeRevisions: (c.REPORTER_FREE_REVISIONS as number) ?? 2,
       subscriptionMonthlyPrice: (c.REPORTER_SUBSCRIPTION_MONTHLY_PRICE as number) || 500,
+      cancelRefundAccepted: (c.REPORTER_CANCEL_REFUND_ACCEPTED as number) ?? 1,
+      cancelRefundInProgress: (c.REPORTER_CANCEL_REFUND_IN_PROGRESS as number) ?? 0.5,
+      slaGraceMinutes: (c.REPORTER_SLA_GRACE_MINUTES as number) ?? 5,
+      slaBreachRefund: (c.REPORTER_SLA_BREACH_REFUND as number) ?? 0.25,
+      slaCancelAfterMinutes: (c.REPORTER_SLA_CANCEL_AFTER_MINUTES as number) ?? 60,
+      generationConcurrency: (c.REPORTER_GENERATION_CONCURRENCY as number) || 2,
+      generationMaxAttempts: (c.REPORTER_GENERATION_MAX_ATTEMPTS as number) || 3,
+      factCheck: c.REPORTER_FACT_CHECK !== false && c.REPORTER_FACT_CHECK !== 'false',
+      wordCountTolerance: (c.REPORTER_WORD_COUNT_TOLERANCE as number) ?? 0.15,
+      invoicePrefix: (c.REPORTER_INVOICE_PREFIX as string) || 'NR',
+      invoiceCurrency: (c.REPORTER_INVOICE_CURRENCY as string) || 'USD',
+      taxRate: (c.REPORTER_TAX_RATE as number) ?? 0,
+      invoiceFee: (c.REPORTER_INVOICE_FEE as number) ?? 0,
+      dailyDigestEnabled: c.REPORTER_DAILY_DIGEST_ENABLED === true || c.REPORTER_DAILY_DIGEST_ENABLED === 'true',
+      dailyDigestHourUtc: (c.REPORTER_DAILY_DIGEST_HOUR_UTC as number) ?? 14,
     };
   }
 
@@ -102,6 +372,12 @@ export class NewsReporterService extends Service {
         // Resolve platform channel ID to elizaOS room UUID
         const resolvedRoomId = room.roomId || createUniqueUuid(runtime, room.channelId);
         const resolvedRoom: OutputRoomConfig = { ...room, roomId: resolvedRoomId };
+        if (room.timezone && !isValidTimezone(room.timezone)) {
+          runtime.logger.warn(
+            { scope: LOG_SCOPE, name: room.name, timezone: room.timezone },
+            'Unknown timezone for output room, quiet hours will use UTC'
+          );
+        }
         service.outputRooms.set(resolvedRoomId, resolvedRoom);
         runtime.logger.info(
           { scope: LOG_SCOPE, channelId: room.channelId, roomId: resolvedRoomId, name: room.name },
@@ -114,8 +390,31 @@ export class NewsReporterService extends Service {
       );
     }
 
-    // Load existing coverage state from memory
+    // Custom report types. Invalid entries are skipped so one typo doesn't take down the rest.
+    const { types: customTypes, errors: typeErrors } = parseCustomReportTypes(config.reportTypes);
+    for (const reason of typeErrors) {
+      runtime.logger.warn({ scope: LOG_SCOPE, reason }, 'Skipping invalid custom report type');
+    }
+    if (customTypes.length > 0) {
+      service.customReportTypes = customTypes;
+      runtime.logger.info(
+        { scope: LOG_SCOPE, types: customTypes.map((t) => t.type) },
+        'Loaded custom report types'
+      );
+    }
+
+    // Built-in story sources. Other plugins register theirs via registerStorySource().
+    service.registerStorySource(createInvestigatorStorySource(runtime));
+    service.registerStorySource(newsStoriesProviderSource);
+
+    // Load existing coverage state and ledger from memory
     await service.loadCoverageState();
+    await service.loadCoverageLedger();
+    await service.loadSubscriptions();
+    await service.loadQuotes();
+    await service.loadLocalJobs();
+    await service.loadClientProfiles();
+    await service.loadInvoiceSequence();
 
     // Register coverage pump task worker
     runtime.registerTaskWorker({
@@ -139,6 +438,113 @@ export class NewsReporterService extends Service {
       });
     }
 
+    // Register daily digest task worker (checks every 15min which rooms are due)
+    runtime.registerTaskWorker({
+      name: 'NEWS_DAILY_DIGEST',
+      execute: async (_rt, _options, _task) => {
+        await service.dailyDigestTick();
+      },
+    });
+
+    const existingDigestTasks = await runtime.getTasksByName('NEWS_DAILY_DIGEST');
+    if (!existingDigestTasks || existingDigestTasks.length === 0) {
+      await runtime.createTask({
+        name: 'NEWS_DAILY_DIGEST',
+        description: 'Deliver daily digests to opted-in output rooms',
+        metadata: {
+          updatedAt: Date.now(),
+          updateInterval: DIGEST_CHECK_INTERVAL_MS,
+        },
+        tags: ['repeat'],
+      });
+    }
+
+    // Register subscription delivery task worker (cron schedules, checked every 5min)
+    runtime.registerTaskWorker({
+      name: 'NEWS_SUBSCRIPTION_DELIVERY',
+      execute: async (_rt, _options, _task) => {
+        await service.subscriptionTick();
+      },
+    });
+
+    const existingSubscriptionTasks = await runtime.getTasksByName('NEWS_SUBSCRIPTION_DELIVERY');
+    if (!existingSubscriptionTasks || existingSubscriptionTasks.length === 0) {
+      await runtime.createTask({
+        name: 'NEWS_SUBSCRIPTION_DELIVERY',
+        description: 'Generate and deliver reports for active subscriptions',
+        metadata: {
+          updatedAt: Date.now(),
+          updateInterval: SUBSCRIPTION_CHECK_INTERVAL_MS,
+        },
+        tags: ['repeat'],
+      });
+    }
+
+    // Register commerce payment sync (delivered → paid once commerce confirms payment)
+    runtime.registerTaskWorker({
+      name: 'NEWS_PAYMENT_SYNC',
+      execute: async (_rt, _options, _task) => {
+        await service.syncJobPayments();
+      },
+    });
+
+    const existingPaymentTasks = await runtime.getTasksByName('NEWS_PAYMENT_SYNC');
+    if (!existingPaymentTasks || existingPaymentTasks.length === 0) {
+      await runtime.createTask({
+        name: 'NEWS_PAYMENT_SYNC',
+        description: 'Mark delivered jobs paid once plugin-commerce confirms payment',
+        metadata: {
+          updatedAt: Date.now(),
+          updateInterval: PAYMENT_SYNC_INTERVAL_MS,
+        },
+        tags: ['repeat'],
+      });
+    }
+
+    // Register delivery deadline watcher (commissioned jobs past their promised time)
+    runtime.registerTaskWorker({
+      name: 'NEWS_JOB_DEADLINE_CHECK',
+      execute: async (_rt, _options, _task) => {
+        await service.jobDeadlineTick();
+      },
+    });
+
+    const existingDeadlineTasks = await runtime.getTasksByName('NEWS_JOB_DEADLINE_CHECK');
+    if (!existingDeadlineTasks || existingDeadlineTasks.length === 0) {
+      await runtime.createTask({
+        name: 'NEWS_JOB_DEADLINE_CHECK',
+        description: 'Flag commissioned jobs that miss their promised delivery time',
+        metadata: {
+          updatedAt: Date.now(),
+          updateInterval: JOB_DEADLINE_CHECK_INTERVAL_MS,
+        },
+        tags: ['repeat'],
+      });
+    }
+
+    // Register background generation queue worker. Entries left 'running' by a previous
+    // process are requeued first -- nothing is writing them anymore.
+    await service.recoverGenerationQueue();
+    runtime.registerTaskWorker({
+      name: 'NEWS_GENERATION_QUEUE',
+      execute: async (_rt, _options, _task) => {
+        await service.processGenerationQueue();
+      },
+    });
+
+    const existingQueueTasks = await runtime.getTasksByName('NEWS_GENERATION_QUEUE');
+    if (!existingQueueTasks || existingQueueTasks.length === 0) {
+      await runtime.createTask({
+        name: 'NEWS_GENERATION_QUEUE',
+        description: 'Write queued reports in the background',
+        metadata: {
+          updatedAt: Date.now(),
+          updateInterval: GENERATION_QUEUE_CHECK_INTERVAL_MS,
+        },
+        tags: ['repeat'],
+      });
+    }
+
     runtime.logger.info({ scope: LOG_SCOPE }, 'NewsReporterService started');
     return service;
   }
@@ -168,6 +574,221 @@ export class NewsReporterService extends Service {
     return this.outputRooms.get(roomId) || null;
   }
 
+  // ============================================================================
+  // Story Sources
+  // ============================================================================
+
+  /**
+   * Register a story source. Replaces any existing source with the same name.
+   */
+  registerStorySource(source: StorySource): void {
+    if (this.storySources.has(source.name)) {
+      this.runtime.logger.warn({ scope: LOG_SCOPE, source: source.name }, 'Replacing story source');
+    }
+    this.storySources.set(source.name, source);
+    this.runtime.logger.debug({ scope: LOG_SCOPE, source: source.name }, 'Registered story source');
+  }
+
+  unregisterStorySource(name: string): boolean {
+    return this.storySources.delete(name);
+  }
+
+  getStorySourceNames(): string[] {
+    return Array.from(this.storySources.keys());
+  }
+
+  /**
+   * Get Stories (merged + validated across all sources)
+   *
+   * WHY VALIDATE HERE:
+   * - Sources are other plugins; their data shape is not guaranteed
+   * - One malformed story must not crash STORY_PROMPT or report generation
+   * - Rejected stories are logged with the reason so source authors can fix them
+   *
+   * MERGING:
+   * - Stories are keyed by id; the same story from several sources is merged
+   * - A failing source is logged and skipped, the rest still contribute
+   *
+   * @param state Composed state, used by sources that read provider data (NEWS_STORIES)
+   */
+  async getStories(state?: State): Promise<Story[]> {
+    const merged = new Map<string, Story>();
+
+    for (const source of this.storySources.values()) {
+      let rawStories: unknown[];
+      try {
+        rawStories = await source.getStories(state);
+      } catch (error) {
+        this.runtime.logger.error({ scope: LOG_SCOPE, error, source: source.name }, 'Story source failed');
+        continue;
+      }
+
+      if (!Array.isArray(rawStories)) {
+        this.logRejectedStory(source.name, rawStories, 'source did not return an array');
+        continue;
+      }
+
+      for (const raw of rawStories) {
+        const parsed = parseStory(raw);
+        if (!parsed.success) {
+          this.logRejectedStory(source.name, raw, parsed.reason);
+          continue;
+        }
+
+        const existing = merged.get(parsed.story.id);
+        merged.set(parsed.story.id, existing ? this.mergeStories(existing, parsed.story) : parsed.story);
+      }
+    }
+
+    return Array.from(merged.values());
+  }
+
+  async getStoriesByIds(storyIds: UUID[], state?: State): Promise<Story[]> {
+    if (storyIds.length === 0) return [];
+    const stories = await this.getStories(state);
+    return stories.filter((s) => storyIds.includes(s.id));
+  }
+
+  /**
+   * Stories a report request is about, matched on titles, topics and entities.
+   * - Multi-story types (recaps, trends) take every match up to what the type includes;
+   *   with no topic they cover the room's relevant stories
+   * - Single-story types take the best match if it's clear, else offer the candidates;
+   *   with no topic they offer the room's top stories
+   */
+  async resolveStoriesForRequest(
+    text: string,
+    reportType: ReportType,
+    roomId: UUID,
+    state?: State
+  ): Promise<StoryResolution> {
+    const maxStories = getIncludedStories(reportType);
+    const stories = await this.getStories(state);
+
+    // The report type's own name isn't part of the topic ("investor memo on ...")
+    const metadata = this.getReportTypeMetadata(reportType);
+    const request = [metadata?.name, reportType.replace(/-/g, ' ')]
+      .filter((phrase): phrase is string => !!phrase)
+      .reduce((t, phrase) => t.split(phrase.toLowerCase()).join(' '), text.toLowerCase());
+
+    if (extractTerms(request).length === 0) {
+      const relevant = (await this.filterStoriesForRoom(roomId, stories)).slice(0, Math.max(maxStories, 3));
+      if (relevant.length === 0) return { status: 'none', topic: '' };
+      return maxStories > 1 || relevant.length === 1
+        ? { status: 'resolved', stories: relevant.slice(0, maxStories) }
+        : { status: 'ambiguous', candidates: relevant };
+    }
+
+    const matches = matchStories(stories, request);
+    if (matches.length === 0) {
+      const phrase = text.match(/\b(?:on|about|covering|regarding)\s+(.+?)[?.!]*$/i)?.[1];
+      return { status: 'none', topic: phrase || extractTerms(request).join(' ') };
+    }
+    if (maxStories > 1) {
+      return { status: 'resolved', stories: matches.slice(0, maxStories).map((m) => m.story) };
+    }
+
+    const winner = clearWinner(matches);
+    return winner
+      ? { status: 'resolved', stories: [winner.story] }
+      : { status: 'ambiguous', candidates: matches.slice(0, MAX_STORY_CANDIDATES).map((m) => m.story) };
+  }
+
+  /**
+   * Remember the stories offered to a requester until they pick one (STORY_CHOICE_TTL_MS)
+   */
+  setPendingStoryChoice(
+    roomId: UUID,
+    entityId: UUID,
+    choice: { reportType: ReportType; brief: string; candidates: Story[] }
+  ): void {
+    this.pendingStoryChoices.set(`${roomId}:${entityId}`, { ...choice, askedAt: Date.now() });
+  }
+
+  getPendingStoryChoice(
+    roomId: UUID,
+    entityId: UUID
+  ): { reportType: ReportType; brief: string; candidates: Story[] } | null {
+    const key = `${roomId}:${entityId}`;
+    const pending = this.pendingStoryChoices.get(key);
+    if (!pending) return null;
+    if (Date.now() - pending.askedAt > STORY_CHOICE_TTL_MS) {
+      this.pendingStoryChoices.delete(key);
+      return null;
+    }
+    return pending;
+  }
+
+  clearPendingStoryChoice(roomId: UUID, entityId: UUID): void {
+    this.pendingStoryChoices.delete(`${roomId}:${entityId}`);
+  }
+
+  /**
+   * Stories relevant to an output room
+   * - sourceFilter: only stories observed on the room's platforms
+   * - Room topics (pinned or inferred): growing stories bypass the topic filter,
+   *   important news is worth sharing even if off-topic
+   */
+  async getRelevantStories(roomId: UUID, state?: State): Promise<Story[]> {
+    return this.filterStoriesForRoom(roomId, await this.getStories(state));
+  }
+
+  private async filterStoriesForRoom(roomId: UUID, stories: Story[]): Promise<Story[]> {
+    const roomConfig = this.getOutputRoomConfig(roomId);
+
+    if (roomConfig?.sourceFilter) {
+      const sourceFilter = roomConfig.sourceFilter;
+      stories = stories.filter((s) => s.sources.some((src) => sourceFilter.includes(src.platform)));
+    }
+
+    const roomTopics = await this.getRoomTopics(roomId);
+    if (roomTopics.length > 0) {
+      stories = stories.filter((s) => matchesRoomTopics(s, roomTopics) || s.momentum === 'growing');
+    }
+
+    return stories;
+  }
+
+  /**
+   * Merge two copies of the same story: newest wins for text and momentum,
+   * sources/topics/entities are unioned, confidence takes the stronger signal.
+   */
+  private mergeStories(a: Story, b: Story): Story {
+    const newer = (b.updatedAt || 0) > (a.updatedAt || 0) ? b : a;
+    const firstSeen = [a.firstSeenAt, b.firstSeenAt].filter((t): t is number => typeof t === 'number');
+    const sourceKeys = new Set<string>();
+    const sources = [...a.sources, ...b.sources].filter((src) => {
+      const key = `${src.platform}|${src.url || ''}`;
+      if (sourceKeys.has(key)) return false;
+      sourceKeys.add(key);
+      return true;
+    });
+
+    return {
+      ...newer,
+      sources,
+      topics: Array.from(new Set([...a.topics, ...b.topics])),
+      entities: Array.from(new Set([...a.entities, ...b.entities])),
+      confidence: Math.max(a.confidence, b.confidence),
+      url: newer.url || a.url || b.url,
+      firstSeenAt: firstSeen.length > 0 ? Math.min(...firstSeen) : undefined,
+    };
+  }
+
+  private logRejectedStory(sourceName: string, raw: unknown, reason: string): void {
+    const rawObj = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const storyId = typeof rawObj.id === 'string' ? rawObj.id : undefined;
+    const key = `${sourceName}|${storyId || 'unknown'}|${reason}`;
+    const logContext = { scope: LOG_SCOPE, source: sourceName, storyId, title: rawObj.title, reason };
+
+    if (this.loggedStoryRejections.has(key)) {
+      this.runtime.logger.debug(logContext, 'Rejected malformed story');
+      return;
+    }
+    this.loggedStoryRejections.add(key);
+    this.runtime.logger.warn(logContext, 'Rejected malformed story');
+  }
+
   // ============================================================================
   // Coverage State Management
   // ============================================================================
@@ -184,7 +805,9 @@ export class NewsReporterService extends Service {
       for (const memory of memories) {
         const meta = memory.metadata as Record<string, unknown> | undefined;
         if (meta?.roomId) {
-          this.coverageStateCache.set(meta.roomId as string, meta as unknown as CoverageState);
+          const state = meta as unknown as CoverageState;
+          this.migrateLegacyStrikes(state);
+          this.coverageStateCache.set(meta.roomId as string, state);
         }
       }
 
@@ -201,6 +824,22 @@ export class NewsReporterService extends Service {
     return this.coverageStateCache.get(roomId) || null;
   }
 
+  /**
+   * States saved before per-complainer strikes have only a `strikes` count.
+   * Each becomes a strikeLog entry dated at the last mention (the old decay
+   * clock), all from one unknown complainer -- the old count didn't say who
+   * complained, so legacy strikes alone never reach the distinct-user mute.
+   */
+  private migrateLegacyStrikes(state: CoverageState): void {
+    if (state.strikeLog || !(state.strikes > 0)) return;
+    const at = state.lastMentionAt || Date.now();
+    state.strikeLog = Array.from({ length: state.strikes }, () => ({
+      entityId: state.roomId,
+      at,
+      reason: 'legacy strike',
+    }));
+  }
+
   private async saveCoverageState(state: CoverageState): Promise<void> {
     try {
       const existingMemories = await this.runtime.getMemories({
@@ -240,6 +879,18 @@ export class NewsReporterService extends Service {
     }
   }
 
+  private createCoverageState(roomId: UUID, roomConfig: OutputRoomConfig): CoverageState {
+    return {
+      roomId,
+      roomName: roomConfig.name,
+      platform: roomConfig.platform,
+      lastMentionAt: 0,
+      mentionCount24h: 0,
+      cadenceMs: roomConfig.cadenceMs || this.reporterConfig.defaultCadenceMs,
+      strikes: 0,
+    };
+  }
+
   /**
    * Record Story Mention (Coverage Timer Reset)
    * 
@@ -261,147 +912,431 @@ export class NewsReporterService extends Service {
    * 
    * WHAT THIS UPDATES:
    * - lastMentionAt: Now (resets cadence timer)
-   * - mentionCount24h: Increments (toward daily cap)
-   * - Rolls over after 24h automatically
+   * - mentionTimestamps: Rolling 24h window (toward daily cap); mentionCount24h mirrors it
+   * - Coverage ledger: the story STORY_PROMPT suggested (if recent) is marked covered
    * 
    * Called by coverageTrackerEvaluator when agent speaks in output room
    */
-  async recordMention(roomId: UUID): Promise<void> {
+  async recordMention(roomId: UUID, messageId?: UUID): Promise<void> {
     const roomConfig = this.getOutputRoomConfig(roomId);
     if (!roomConfig) return;
 
-    let state = this.getCoverageState(roomId);
+    const state = this.getCoverageState(roomId) || this.createCoverageState(roomId, roomConfig);
+    const now = Date.now();
 
-    if (!state) {
-      // Initialize coverage state for this room
-      state = {
-        roomId,
-        roomName: roomConfig.name,
-        platform: roomConfig.platform,
-        lastMentionAt: Date.now(),
-        mentionCount24h: 1,
-        cadenceMs: roomConfig.cadenceMs || this.reporterConfig.defaultCadenceMs,
-        strikes: 0,
-      };
-    } else {
-      state.lastMentionAt = Date.now();
-      state.mentionCount24h++;
+    state.lastMentionAt = now;
+    this.pruneMentions(state, now);
+    state.mentionTimestamps = [...(state.mentionTimestamps || []), now];
+    state.mentionCount24h = state.mentionTimestamps.length;
+
+    await this.saveCoverageState(state);
 
-      // Reset 24h count if more than 24h has passed
-      const oneDayAgo = Date.now() - 24 * 60 * 60 * 1000;
-      if (state.lastMentionAt < oneDayAgo) {
-        state.mentionCount24h = 1;
+    const pending = this.pendingSuggestions.get(roomId);
+    if (pending) {
+      this.pendingSuggestions.delete(roomId);
+      if (Date.now() - pending.suggestedAt <= PENDING_SUGGESTION_TTL_MS) {
+        await this.recordStoryCoverage(
+          roomId,
+          pending.story,
+          pending.archetype,
+          pending.isFollowUp,
+          messageId
+        );
       }
     }
-
-    await this.saveCoverageState(state);
   }
 
   /**
-   * Record Negative Feedback Strike (Self-Regulation)
-   * 
-   * WHY STRIKE SYSTEM:
-   * - Agents must respond to community feedback autonomously
-   * - Manual moderation doesn't scale across hundreds of rooms
-   * - 2 strikes = clear pattern (not just one person having a bad day)
-   * - Auto-mute shows immediate respect for community preferences
-   * 
-   * WHAT TRIGGERS THIS:
-   * - feedbackSentinelEvaluator detects negative phrases:
-   *   "stop", "spam", "too much", "annoying", "shut up", etc.
-   * - Only in output rooms (ignore noise elsewhere)
-   * - Only from other users (agent's own messages don't count)
-   * 
-   * WHY KEYWORD MATCHING (NOT LLM):
-   * - Fast (<1ms) and cheap ($0)
-   * - Phrases consistently correlate with annoyance
-   * - False positives rare in practice (context usually clear)
-   * - v2 will add LLM sentiment analysis for edge cases
-   * 
-   * AUTO-MUTE LOGIC:
-   * - 2+ strikes → mutedUntil = now + 24h
-   * - Coverage pump skips muted rooms (hard stop)
-   * - After 24h: mute expires, coverage can resume
-   * - After 48h: strikes decay (allow recovery)
-   * 
-   * WHY 2 STRIKES (NOT 1):
-   * - 1 strike could be outlier (one grumpy user)
-   * - 2 strikes = pattern (multiple people or repeated complaint)
-   * 
-   * WHY 24H MUTE (NOT PERMANENT):
-   * - Long enough to matter and show respect
-   * - Short enough to allow recovery from mistakes
-   * - Situation often cools down overnight
-   * 
-   * WHY 48H DECAY:
-   * - Allows fresh start after cooling period
-   * - Prevents permanent ban from one bad day
-   * - Encourages long-term behavior improvement
-   * 
-   * Called by feedbackSentinelEvaluator when user complains
+   * Drop mentions older than 24h from the rolling window.
+   * @returns true if anything changed
    */
-  async recordStrike(roomId: UUID): Promise<void> {
-    let state = this.getCoverageState(roomId);
+  private pruneMentions(state: CoverageState, now: number): boolean {
+    const oneDayAgo = now - 24 * 60 * 60 * 1000;
+    const recent = (state.mentionTimestamps || []).filter((t) => t > oneDayAgo);
+    const changed = recent.length !== (state.mentionTimestamps || []).length || state.mentionCount24h !== recent.length;
 
-    if (!state) {
-      const roomConfig = this.getOutputRoomConfig(roomId);
-      if (!roomConfig) return;
+    state.mentionTimestamps = recent;
+    state.mentionCount24h = recent.length;
+    return changed;
+  }
 
-      state = {
-        roomId,
-        roomName: roomConfig.name,
-        platform: roomConfig.platform,
-        lastMentionAt: Date.now(),
-        mentionCount24h: 0,
-        cadenceMs: roomConfig.cadenceMs || this.reporterConfig.defaultCadenceMs,
-        strikes: 1,
-      };
-    } else {
-      state.strikes++;
-    }
+  // ============================================================================
+  // Story Coverage Ledger
+  // ============================================================================
 
-    // Auto-mute after 2 strikes
-    if (state.strikes >= 2) {
-      state.mutedUntil = Date.now() + this.reporterConfig.strikeMuteHours * 60 * 60 * 1000;
-      this.runtime.logger.warn(
-        { scope: LOG_SCOPE, roomName: state.roomName, strikes: state.strikes },
-        'Room auto-muted due to strikes'
+  private async loadCoverageLedger(): Promise<void> {
+    try {
+      const memories = await this.runtime.getMemories({
+        tableName: 'reporter_coverage_ledger',
+        agentId: this.runtime.agentId,
+        start: Date.now() - LEDGER_RETENTION_MS,
+        count: 1000,
+        unique: false,
+      });
+
+      for (const memory of memories) {
+        const meta = memory.metadata as Record<string, unknown> | undefined;
+        if (meta?.storyId && meta?.roomId) {
+          this.addLedgerEntry(meta as unknown as CoverageLedgerEntry);
+        }
+      }
+
+      this.runtime.logger.debug(
+        { scope: LOG_SCOPE, count: memories.length },
+        'Loaded coverage ledger'
       );
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error }, 'Error loading coverage ledger');
     }
+  }
 
-    await this.saveCoverageState(state);
+  private addLedgerEntry(entry: CoverageLedgerEntry): void {
+    const cutoff = Date.now() - LEDGER_RETENTION_MS;
+    const entries = (this.coverageLedger.get(entry.roomId) || []).filter((e) => e.coveredAt > cutoff);
+    entries.push(entry);
+    entries.sort((a, b) => a.coveredAt - b.coveredAt);
+    this.coverageLedger.set(entry.roomId, entries);
   }
 
   /**
-   * Check if message content contains negative feedback
+   * Coverage ledger for a room, oldest first (last 14 days)
    */
-  isNegativeFeedback(text: string): boolean {
-    if (!text) return false;
+  getCoverageLedger(roomId: UUID): CoverageLedgerEntry[] {
+    return [...(this.coverageLedger.get(roomId) || [])];
+  }
+
+  /**
+   * Most recent coverage of a story in a room, or null if never covered
+   */
+  getLastStoryCoverage(roomId: UUID, storyId: UUID): CoverageLedgerEntry | null {
+    const entries = this.coverageLedger.get(roomId) || [];
+    for (let i = entries.length - 1; i >= 0; i--) {
+      if (entries[i].storyId === storyId) return entries[i];
+    }
+    return null;
+  }
+
+  /**
+   * Story Developments Since Coverage
+   *
+   * Returns what materially changed since the story was last covered (empty = nothing
+   * worth a follow-up). Rewordings don't count; only signals the audience would care about:
+   * - Momentum picked up (now growing)
+   * - Confidence rose by 0.2+
+   * - 2+ new sources reporting it
+   */
+  getStoryDevelopments(entry: CoverageLedgerEntry, story: Story): string[] {
+    const developments: string[] = [];
 
-    const negativePhrases = [
-      'stop',
-      'enough',
-      'too much',
-      'spam',
-      'annoying',
-      'shut up',
-      'quiet',
-      'mute',
-      "don't care",
-      'not interested',
-    ];
+    if (story.momentum === 'growing' && entry.momentum !== 'growing') {
+      developments.push(`momentum ${entry.momentum} → growing`);
+    }
+    if (story.confidence - entry.confidence >= FOLLOWUP_CONFIDENCE_DELTA) {
+      developments.push(`confidence ${entry.confidence.toFixed(2)} → ${story.confidence.toFixed(2)}`);
+    }
+    const newSources = story.sources.length - entry.sourceCount;
+    if (newSources >= FOLLOWUP_NEW_SOURCES) {
+      developments.push(`${newSources} new sources`);
+    }
 
-    const textLower = text.toLowerCase();
-    return negativePhrases.some((phrase) => textLower.includes(phrase));
+    return developments;
   }
 
-  // ============================================================================
-  // Coverage Pump (Anti-Spam Safeguards)
-  // ============================================================================
+  /**
+   * Remember which story STORY_PROMPT suggested for a room.
+   * The next agent message in that room is attributed to it (see recordMention).
+   */
+  setPendingStorySuggestion(roomId: UUID, story: Story, archetype: StoryArchetype, isFollowUp: boolean): void {
+    this.pendingSuggestions.set(roomId, { story, archetype, isFollowUp, suggestedAt: Date.now() });
+  }
 
   /**
-   * Coverage Pump Tick - The Safeguard Gauntlet
-   * 
+   * Record Story Coverage (Ledger Write)
+   *
+   * WHY A LEDGER:
+   * - Without it, STORY_PROMPT pushed the same headline every cadence window
+   * - Lets the provider prefer uncovered stories and only follow up on real developments
+   *
+   * Persisted in reporter_coverage_ledger so restarts don't cause repeats.
+   */
+  async recordStoryCoverage(
+    roomId: UUID,
+    story: Story,
+    archetype: StoryArchetype,
+    isFollowUp = false,
+    messageId?: UUID
+  ): Promise<CoverageLedgerEntry> {
+    const entry: CoverageLedgerEntry = {
+      storyId: story.id,
+      roomId,
+      archetype,
+      coveredAt: Date.now(),
+      storyTitle: story.title,
+      momentum: story.momentum,
+      confidence: story.confidence,
+      sourceCount: story.sources.length,
+      isFollowUp,
+      messageId,
+    };
+
+    this.addLedgerEntry(entry);
+    await this.updateArchetypeEngagement(roomId, archetype, { posts: 1 });
+
+    try {
+      const memory = {
+        id: uuidv4() as UUID,
+        entityId: this.runtime.agentId,
+        agentId: this.runtime.agentId,
+        roomId,
+        content: { text: `Covered "${story.title}"` },
+        createdAt: entry.coveredAt,
+        metadata: { type: MemoryType.CUSTOM as string, ...entry },
+      } as Memory;
+      await this.runtime.createMemory(memory, 'reporter_coverage_ledger');
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error }, 'Error saving coverage ledger entry');
+    }
+
+    this.runtime.logger.debug(
+      { scope: LOG_SCOPE, roomId, storyId: story.id, archetype, isFollowUp },
+      'Recorded story coverage'
+    );
+    return entry;
+  }
+
+  // ============================================================================
+  // Engagement Tracking (Experience Learning)
+  // ============================================================================
+
+  /**
+   * Record Engagement on a Story Post
+   *
+   * WHY: pickArchetype needs outcomes, not guesses. Replies and reactions that
+   * point at one of the agent's story posts (content.inReplyTo = post message id)
+   * are credited to the archetype that post used.
+   *
+   * Called by the engagement event handlers for MESSAGE_RECEIVED and REACTION_RECEIVED.
+   *
+   * @returns true if the target was a tracked story post
+   */
+  async recordEngagement(roomId: UUID, inReplyTo: UUID, kind: 'reply' | 'reaction'): Promise<boolean> {
+    const entry = (this.coverageLedger.get(roomId) || []).find((e) => e.messageId === inReplyTo);
+    if (!entry) return false;
+
+    await this.updateArchetypeEngagement(
+      roomId,
+      entry.archetype,
+      kind === 'reply' ? { replies: 1 } : { reactions: 1 }
+    );
+
+    this.runtime.logger.debug(
+      { scope: LOG_SCOPE, roomId, storyId: entry.storyId, archetype: entry.archetype, kind },
+      'Recorded story engagement'
+    );
+    return true;
+  }
+
+  private async updateArchetypeEngagement(
+    roomId: UUID,
+    archetype: StoryArchetype,
+    delta: Partial<ArchetypeEngagement>
+  ): Promise<void> {
+    const roomConfig = this.getOutputRoomConfig(roomId);
+    if (!roomConfig) return;
+
+    const state = this.getCoverageState(roomId) || this.createCoverageState(roomId, roomConfig);
+    const engagement = state.archetypeEngagement || {};
+    const current = engagement[archetype] || { posts: 0, replies: 0, reactions: 0 };
+
+    engagement[archetype] = {
+      posts: current.posts + (delta.posts || 0),
+      replies: current.replies + (delta.replies || 0),
+      reactions: current.reactions + (delta.reactions || 0),
+    };
+    state.archetypeEngagement = engagement;
+
+    await this.saveCoverageState(state);
+  }
+
+  /**
+   * Per-archetype engagement stats for a room (all archetypes, including unused ones)
+   */
+  getArchetypeStats(roomId: UUID): ArchetypeStats[] {
+    const engagement = this.getCoverageState(roomId)?.archetypeEngagement || {};
+
+    return getAllArchetypes().map(({ archetype }) => {
+      const e = engagement[archetype] || { posts: 0, replies: 0, reactions: 0 };
+      return {
+        archetype,
+        ...e,
+        score: e.posts > 0 ? (2 * e.replies + e.reactions) / e.posts : 0,
+      };
+    });
+  }
+
+  /**
+   * Record Negative Feedback Strike (Self-Regulation)
+   *
+   * WHY STRIKE SYSTEM:
+   * - Agents must respond to community feedback autonomously
+   * - Manual moderation doesn't scale across hundreds of rooms
+   * - Auto-mute shows immediate respect for community preferences
+   *
+   * WHAT TRIGGERS THIS:
+   * - feedbackSentinelEvaluator classifies a message as a complaint aimed at
+   *   the agent's news posts (see classifyFeedback) above the confidence threshold
+   * - Only in output rooms (ignore noise elsewhere)
+   * - Only from other users (agent's own messages don't count)
+   *
+   * WHY PER-COMPLAINER STRIKES:
+   * - "2 strikes = multiple people", but a single counter let one user complaining
+   *   twice mute a whole community
+   * - Each strike records who complained and when
+   *
+   * AUTO-MUTE RULE (configurable):
+   * - REPORTER_STRIKE_MUTE_DISTINCT_USERS different people (default 2)
+   *   within REPORTER_STRIKE_MUTE_WINDOW_HOURS (default 24h)
+   * - → mutedUntil = now + REPORTER_STRIKE_MUTE_HOURS (default 24h)
+   * - Coverage pump skips muted rooms (hard stop)
+   *
+   * DECAY:
+   * - Each strike expires REPORTER_STRIKE_DECAY_HOURS (default 48h) after its own
+   *   timestamp -- not after the last mention, not all at once
+   *
+   * Called by feedbackSentinelEvaluator when user complains
+   */
+  async recordStrike(
+    roomId: UUID,
+    entityId: UUID,
+    details: { confidence?: number; reason?: string } = {}
+  ): Promise<void> {
+    const roomConfig = this.getOutputRoomConfig(roomId);
+    const existing = this.getCoverageState(roomId);
+    if (!existing && !roomConfig) return;
+
+    const state = existing || this.createCoverageState(roomId, roomConfig!);
+    const now = Date.now();
+
+    this.pruneStrikes(state, now);
+    state.strikeLog = [...(state.strikeLog || []), { entityId, at: now, ...details }];
+    state.strikes = state.strikeLog.length;
+
+    const windowStart = now - this.reporterConfig.strikeMuteWindowHours * 60 * 60 * 1000;
+    const complainers = new Set(state.strikeLog.filter((s) => s.at >= windowStart).map((s) => s.entityId));
+
+    if (complainers.size >= this.reporterConfig.strikeMuteDistinctUsers) {
+      state.mutedUntil = now + this.reporterConfig.strikeMuteHours * 60 * 60 * 1000;
+      this.runtime.logger.warn(
+        { scope: LOG_SCOPE, roomName: state.roomName, strikes: state.strikes, complainers: complainers.size },
+        'Room auto-muted due to strikes'
+      );
+    }
+
+    await this.saveCoverageState(state);
+  }
+
+  /**
+   * Active (undecayed) strikes for a room, oldest first
+   */
+  getStrikes(roomId: UUID): StrikeRecord[] {
+    const state = this.getCoverageState(roomId);
+    if (!state) return [];
+    const decayMs = this.reporterConfig.strikeDecayHours * 60 * 60 * 1000;
+    return (state.strikeLog || []).filter((s) => Date.now() - s.at < decayMs);
+  }
+
+  /**
+   * Drop strikes older than REPORTER_STRIKE_DECAY_HOURS (each on its own timestamp).
+   * @returns true if anything changed
+   */
+  private pruneStrikes(state: CoverageState, now: number): boolean {
+    const decayMs = this.reporterConfig.strikeDecayHours * 60 * 60 * 1000;
+    const active = (state.strikeLog || []).filter((s) => now - s.at < decayMs);
+    const changed = active.length !== (state.strikeLog || []).length || state.strikes !== active.length;
+
+    state.strikeLog = active;
+    state.strikes = active.length;
+    return changed;
+  }
+
+  /**
+   * Cheap keyword pre-filter (layer 1 of classifyFeedback).
+   * A match only means "worth a closer look" -- never record a strike on this alone.
+   */
+  isNegativeFeedback(text: string): boolean {
+    if (!text) return false;
+    return prefilterFeedback(text, { agentName: '', repliesToStoryPost: false }).pass;
+  }
+
+  /**
+   * Classify Feedback (layered)
+   *
+   * WHY LAYERED:
+   * - Substring matching struck on "Don't stop posting these!" and "the bus stop",
+   *   and missed complaints in other languages or without the listed words
+   * - A model call per message is too expensive, so a cheap pre-filter decides
+   *   which messages get one
+   *
+   * LAYERS:
+   * 1. Pre-filter: complaint keywords (several languages), reply to a story post,
+   *    or a mention of the agent. Nothing matched → not negative, no model call
+   * 2. Model: is this a complaint aimed at the agent's news posts? + confidence
+   * 3. Fallback (model error/unparseable): only explicit directed phrases count
+   *
+   * The caller decides whether the confidence is enough (meetsStrikeThreshold).
+   */
+  async classifyFeedback(message: Memory): Promise<FeedbackVerdict> {
+    const text = message.content.text || '';
+    const ledger = this.coverageLedger.get(message.roomId) || [];
+    const inReplyTo = message.content.inReplyTo;
+
+    const context: FeedbackContext = {
+      agentName: this.runtime.character?.name || '',
+      repliesToStoryPost: !!inReplyTo && ledger.some((e) => e.messageId === inReplyTo),
+      lastStoryTitle: ledger[ledger.length - 1]?.storyTitle,
+    };
+
+    const prefilter = prefilterFeedback(text, context);
+    if (!text.trim() || !prefilter.pass) {
+      return {
+        isNegative: false,
+        targetsAgent: false,
+        confidence: 0,
+        reason: 'no complaint signals',
+        stage: 'prefilter',
+      };
+    }
+
+    try {
+      const response = await this.runtime.useModel(ModelType.TEXT_SMALL, {
+        prompt: buildFeedbackPrompt(text, context),
+      });
+      const verdict = parseFeedbackVerdict(String(response));
+      if (verdict) {
+        return verdict;
+      }
+      this.runtime.logger.warn({ scope: LOG_SCOPE }, 'Unparseable feedback verdict, using fallback');
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error }, 'Feedback classification failed, using fallback');
+    }
+
+    return fallbackFeedbackVerdict(text, context);
+  }
+
+  /**
+   * Strike only on negative verdicts at or above REPORTER_FEEDBACK_CONFIDENCE_THRESHOLD
+   */
+  meetsStrikeThreshold(verdict: FeedbackVerdict): boolean {
+    return verdict.isNegative && verdict.confidence >= this.reporterConfig.feedbackConfidenceThreshold;
+  }
+
+  // ============================================================================
+  // Coverage Pump (Anti-Spam Safeguards)
+  // ============================================================================
+
+  /**
+   * Coverage Pump Tick - The Safeguard Gauntlet
+   * 
    * WHY PERIODIC CHECKING (NOT REAL-TIME):
    * - Intentional delays prevent reaction-based spam
    * - Allows multiple stories to develop before mentioning
@@ -410,15 +1345,18 @@ export class NewsReporterService extends Service {
    * 
    * THE GAUNTLET (v1):
    * 1. Muted check - Hard stop (user feedback = absolute authority)
-   * 2. Daily cap - Volume limit (even wanted content becomes spam)
+   *    Quiet hours - Room-local hours when nobody should be nudged
+   * 2. Daily cap - Volume limit, rolling 24h window (even wanted content becomes spam)
    * 3. Cadence check - Pacing (default 2h between mentions)
-   * 4. Breaking override - Urgent bypass (momentum=growing + confidence>0.8)
+   * 4. Idle check - No human message for 30min (don't interrupt conversations)
+   *    Breaking stories may interrupt after 5min (momentum=growing + confidence>0.8)
    * 
    * WHY THIS ORDER:
    * - Mute first: User feedback is absolute authority
    * - Cap second: Hard limit prevents runaway
    * - Cadence third: Normal pacing control
-   * - Breaking last: Exception, not the rule
+   * - Idle fourth: Needs a room read, so only after the cheap checks pass
+   * - Breaking interrupt: Exception, not the rule
    * 
    * WHY THESE SPECIFIC VALUES:
    * - 30min pump interval: Balance between freshness and CPU
@@ -431,139 +1369,2390 @@ export class NewsReporterService extends Service {
    * - Does NOT guarantee agent will mention (agent has autonomy)
    * - Does NOT bypass mute/strikes for any reason (user feedback wins)
    * 
-   * v1 implementation: cadence + daily cap + strike system
-   * v2 will add: idle detection, sentiment check, graveyard detection
+   * Also refreshes stale room topics for unmuted rooms (see inferRoomTopics)
+   * v2 will add: sentiment check, graveyard detection
+   */
+  async coveragePumpTick(): Promise<void> {
+    try {
+      const now = Date.now();
+      let tickStories: Story[] | undefined; // Loaded lazily, once per tick
+
+      for (const [roomIdStr, roomConfig] of this.outputRooms.entries()) {
+        const roomId = roomIdStr as UUID;
+        const existingState = this.getCoverageState(roomId);
+
+        // Initialize state if needed
+        const state: CoverageState = existingState || this.createCoverageState(roomId, roomConfig);
+
+        if (!existingState) {
+          await this.saveCoverageState(state);
+        }
+
+        // Strike decay + mention window roll-over (each entry expires on its own timestamp)
+        const strikesChanged = this.pruneStrikes(state, now);
+        const mentionsChanged = this.pruneMentions(state, now);
+        if (strikesChanged || mentionsChanged) {
+          await this.saveCoverageState(state);
+        }
+
+        // Safeguard gauntlet (v1 subset)
+
+        // 1. Muted?
+        if (state.mutedUntil && now < state.mutedUntil) {
+          continue; // Skip
+        }
+
+        // 1b. Quiet hours? (room's local time)
+        if (this.isInQuietHours(roomId, now)) {
+          continue; // Skip
+        }
+
+        // Refresh stale room topics (independent of cadence: next nudge needs them)
+        if (this.isRoomTopicsStale(roomId, now)) {
+          await this.inferRoomTopics(roomId);
+        }
+
+        // 2. Daily cap reached? (rolling 24h window)
+        if (state.mentionCount24h >= this.reporterConfig.dailyMentionCap) {
+          continue; // Skip
+        }
+
+        // 3. Recent mention? (cadence check)
+        const gap = now - state.lastMentionAt;
+        if (gap < state.cadenceMs) {
+          continue; // Skip - too soon
+        }
+
+        // 4. Room idle? (breaking stories may interrupt under a shorter idle rule)
+        const idle = await this.getIdleStatus(roomId, { now });
+        const lastHumanMessageAt = Number.isFinite(idle.idleMs) ? now - idle.idleMs : undefined;
+        if (lastHumanMessageAt !== state.lastHumanMessageAt || idle.isIdle) {
+          state.lastHumanMessageAt = lastHumanMessageAt;
+          if (idle.isIdle) state.lastIdleAt = now;
+          await this.saveCoverageState(state);
+        }
+        if (!idle.isIdle) {
+          if (!idle.breakingMayInterrupt) {
+            continue; // Skip - conversation in progress
+          }
+          tickStories ??= await this.getStories();
+          const roomStories = await this.filterStoriesForRoom(roomId, tickStories);
+          if (!roomStories.some(isBreakingStory)) {
+            continue; // Skip - active room, nothing urgent enough to interrupt
+          }
+        }
+
+        // All safeguards passed - this room needs coverage
+        // The STORY_PROMPT provider will pick this up via getCoverageState()
+        this.runtime.logger.debug(
+          { scope: LOG_SCOPE, roomName: state.roomName, gap },
+          'Coverage gap detected'
+        );
+      }
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error }, 'Error in coverage pump');
+    }
+  }
+
+  // ============================================================================
+  // Room Context
+  // ============================================================================
+
+  /**
+   * Quiet Hours (room-local time)
+   *
+   * WHY: Cadence and idle checks are timezone-blind; a quiet room at 3am in Tokyo
+   * is asleep, not waiting for news. Applies to breaking stories too.
+   *
+   * Unknown timezones fall back to UTC (logged once per room config load).
+   */
+  isInQuietHours(roomId: UUID, now: number = Date.now()): boolean {
+    const roomConfig = this.getOutputRoomConfig(roomId);
+    const quietHours = roomConfig?.quietHours;
+    if (!roomConfig || !quietHours) return false;
+
+    const { hour } = this.getLocalTime(now, roomConfig.timezone);
+    const { startHour, endHour } = quietHours;
+    if (startHour === endHour) return false;
+    return startHour < endHour
+      ? hour >= startHour && hour < endHour
+      : hour >= startHour || hour < endHour; // Wraps midnight
+  }
+
+  /**
+   * Room-local hour, weekday (0 = Sunday) and date (YYYY-MM-DD). UTC without a timezone
+   * or with an unknown one.
+   */
+  private getLocalTime(now: number, timezone?: string): { hour: number; weekday: number; date: string } {
+    const utc = (): { hour: number; weekday: number; date: string } => {
+      const d = new Date(now);
+      return { hour: d.getUTCHours(), weekday: d.getUTCDay(), date: d.toISOString().slice(0, 10) };
+    };
+    if (!timezone) return utc();
+
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: 'numeric',
+        hourCycle: 'h23',
+        weekday: 'short',
+      }).formatToParts(new Date(now));
+      const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+      const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+      return {
+        hour: parseInt(get('hour'), 10),
+        weekday: weekdays.indexOf(get('weekday')),
+        date: `${get('year')}-${get('month')}-${get('day')}`,
+      };
+    } catch {
+      return utc();
+    }
+  }
+
+  /**
+   * Room Idle Status
+   *
+   * WHY IDLE DETECTION:
+   * - Dropping a story into an active conversation derails it and reads as spam
+   * - A quiet room (no human message for REPORTER_MIN_IDLE_BEFORE_NUDGE_MS) is a natural opening
+   * - Breaking stories may interrupt sooner (REPORTER_BREAKING_MIN_IDLE_MS) when
+   *   REPORTER_BREAKING_OVERRIDE is on -- urgent, but still not mid-sentence
+   *
+   * Reads recent messages from the room rather than tracking every incoming message:
+   * survives restarts and costs one query, only for output rooms.
+   *
+   * @param options.now Reference time (message time for STORY_PROMPT)
+   * @param options.excludeMessageId Message being responded to (doesn't count as activity)
+   */
+  async getIdleStatus(
+    roomId: UUID,
+    options: { now?: number; excludeMessageId?: UUID } = {}
+  ): Promise<RoomIdleStatus> {
+    const now = options.now ?? Date.now();
+    const lastHumanMessageAt = await this.getLastHumanMessageAt(roomId, now, options.excludeMessageId);
+    const idleMs = lastHumanMessageAt ? now - lastHumanMessageAt : Infinity;
+
+    return {
+      idleMs,
+      isIdle: idleMs >= this.reporterConfig.minIdleBeforeNudgeMs,
+      breakingMayInterrupt:
+        this.reporterConfig.breakingOverride && idleMs >= this.reporterConfig.breakingMinIdleMs,
+    };
+  }
+
+  private async getLastHumanMessageAt(
+    roomId: UUID,
+    before: number,
+    excludeMessageId?: UUID
+  ): Promise<number | null> {
+    try {
+      const messages = await this.runtime.getMemories({
+        tableName: 'messages',
+        roomId,
+        count: IDLE_LOOKBACK_MESSAGE_COUNT,
+        unique: false,
+      });
+
+      let latest = 0;
+      for (const m of messages) {
+        if (m.entityId === this.runtime.agentId || m.id === excludeMessageId) continue;
+        const createdAt = m.createdAt || 0;
+        if (createdAt < before && createdAt > latest) {
+          latest = createdAt;
+        }
+      }
+      return latest || null;
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error, roomId }, 'Error reading room activity');
+      // Fall back to what the pump last saw
+      return this.getCoverageState(roomId)?.lastHumanMessageAt || null;
+    }
+  }
+
+  /**
+   * Get Room Topics (cached, never calls the model)
+   *
+   * WHY CACHED ONLY:
+   * - STORY_PROMPT calls this on every message in output rooms
+   * - Inference is an LLM call; it runs from the coverage pump instead
+   *
+   * Pinned topics (OutputRoomConfig.topics) always win over inferred ones.
+   * Stale inferred topics are still returned until the pump refreshes them.
+   */
+  async getRoomTopics(roomId: UUID): Promise<string[]> {
+    const roomConfig = this.getOutputRoomConfig(roomId);
+    if (roomConfig?.topics && roomConfig.topics.length > 0) {
+      return roomConfig.topics;
+    }
+    return this.getCoverageState(roomId)?.roomTopics || [];
+  }
+
+  private isRoomTopicsStale(roomId: UUID, now: number): boolean {
+    const roomConfig = this.getOutputRoomConfig(roomId);
+    if (roomConfig?.topics && roomConfig.topics.length > 0) {
+      return false; // Pinned topics never need inference
+    }
+    // Failed attempts count too, so a broken model isn't called on every pump tick
+    const state = this.getCoverageState(roomId);
+    const checkedAt = Math.max(state?.roomTopicsInferredAt || 0, state?.roomTopicsAttemptedAt || 0);
+    return now - checkedAt > this.reporterConfig.roomTopicsTtlMs;
+  }
+
+  /**
+   * Infer Room Topics (LLM)
+   *
+   * Reads recent room messages, asks the model for 3-5 topics, and caches them
+   * in coverage state. Called by the coverage pump when the cache is stale.
+   *
+   * WHY A MINIMUM MESSAGE COUNT:
+   * - A handful of messages can't characterize a room; topics would be noise
+   * - Returning [] keeps the topic filter off (all stories stay eligible)
+   *
+   * Every attempt is stamped (roomTopicsAttemptedAt) before the model call, so
+   * a failure keeps the cached topics and is retried once the TTL has passed.
+   */
+  async inferRoomTopics(roomId: UUID): Promise<string[]> {
+    const roomConfig = this.getOutputRoomConfig(roomId);
+    if (!roomConfig) return [];
+
+    try {
+      const attempted = this.getCoverageState(roomId) || this.createCoverageState(roomId, roomConfig);
+      attempted.roomTopicsAttemptedAt = Date.now();
+      await this.saveCoverageState(attempted);
+
+      const messages = await this.runtime.getMemories({
+        tableName: 'messages',
+        roomId,
+        count: this.reporterConfig.roomTopicsMessageCount,
+        unique: false,
+      });
+
+      const lines = messages
+        .filter((m) => m.entityId !== this.runtime.agentId && m.content?.text)
+        .sort((a, b) => (a.createdAt || 0) - (b.createdAt || 0))
+        .map((m) => `- ${(m.content.text || '').replace(/\s+/g, ' ').slice(0, 280)}`);
+
+      if (lines.length < MIN_MESSAGES_FOR_TOPIC_INFERENCE) {
+        this.runtime.logger.debug(
+          { scope: LOG_SCOPE, roomName: roomConfig.name, messageCount: lines.length },
+          'Not enough messages to infer room topics'
+        );
+        return [];
+      }
+
+      const prompt = `Based on these recent messages from a chat room, what topics are discussed here?
+
+${lines.join('\n')}
+
+Return 3-5 main topics, one per line. Use short lowercase noun phrases (1-3 words). No numbering, no explanations.`;
+
+      const response = await this.runtime.useModel(ModelType.TEXT_SMALL, { prompt });
+      const topics = this.parseTopics(String(response));
+
+      if (topics.length === 0) {
+        this.runtime.logger.warn(
+          { scope: LOG_SCOPE, roomName: roomConfig.name },
+          'Room topic inference returned no topics'
+        );
+        return [];
+      }
+
+      const state = this.getCoverageState(roomId) || this.createCoverageState(roomId, roomConfig);
+      state.roomTopics = topics;
+      state.roomTopicsInferredAt = Date.now();
+      await this.saveCoverageState(state);
+
+      this.runtime.logger.info({ scope: LOG_SCOPE, roomName: roomConfig.name, topics }, 'Inferred room topics');
+      return topics;
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error, roomId }, 'Error inferring room topics');
+      return [];
+    }
+  }
+
+  private parseTopics(response: string): string[] {
+    const topics = response
+      .split('\n')
+      .map((line) =>
+        line
+          .replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '')
+          .replace(/[*_`"]/g, '')
+          .trim()
+          .toLowerCase()
+      )
+      .filter((t) => t.length > 0 && t.length <= 50);
+    return Array.from(new Set(topics)).slice(0, 5);
+  }
+
+  /**
+   * Pick Archetype (explore/exploit per room)
+   *
+   * WHY EPSILON-GREEDY:
+   * - Rooms differ: #alpha-chat loves hot takes, #announcements wants alerts
+   * - Pure exploitation locks in whatever worked first; exploration keeps testing
+   * - Simple enough to reason about from the stats alone
+   *
+   * HOW:
+   * 1. With probability REPORTER_ARCHETYPE_EXPLORATION_RATE: random archetype
+   * 2. Archetypes with fewer than 3 posts in this room: try those first
+   * 3. Otherwise: highest engagement per post (replies count double -- a reply costs more than a reaction)
+   */
+  pickArchetype(roomId: UUID): StoryArchetype {
+    if (Math.random() < this.reporterConfig.archetypeExplorationRate) {
+      return pickRandomArchetype();
+    }
+
+    const stats = this.getArchetypeStats(roomId);
+    const undersampled = stats.filter((s) => s.posts < ARCHETYPE_MIN_SAMPLES);
+    if (undersampled.length > 0) {
+      return undersampled[Math.floor(Math.random() * undersampled.length)].archetype;
+    }
+
+    const bestScore = Math.max(...stats.map((s) => s.score));
+    const best = stats.filter((s) => s.score === bestScore);
+    return best[Math.floor(Math.random() * best.length)].archetype;
+  }
+
+  // ============================================================================
+  // Daily Digest
+  // ============================================================================
+
+  /**
+   * Is a room due for its daily digest?
+   *
+   * - Opted in: room digest.enabled, else REPORTER_DAILY_DIGEST_ENABLED
+   * - Hour: room digest.hour in the room's timezone, else REPORTER_DAILY_DIGEST_HOUR_UTC
+   * - Weekdays: room digest.weekdays (room-local), else every day
+   * - Once per room-local day; due from the digest hour onward, so a restart
+   *   during the digest hour still delivers later that day
+   */
+  isDigestDue(roomId: UUID, now: number = Date.now()): boolean {
+    const roomConfig = this.getOutputRoomConfig(roomId);
+    if (!roomConfig) return false;
+
+    const digest = roomConfig.digest || {};
+    if (!(digest.enabled ?? this.reporterConfig.dailyDigestEnabled)) return false;
+
+    // A room-specific hour is local; the global default is UTC
+    const local =
+      digest.hour !== undefined ? this.getLocalTime(now, roomConfig.timezone) : this.getLocalTime(now);
+    const digestHour = digest.hour ?? this.reporterConfig.dailyDigestHourUtc;
+
+    if (digest.weekdays && digest.weekdays.length > 0 && !digest.weekdays.includes(local.weekday)) {
+      return false;
+    }
+    if (local.hour < digestHour) return false;
+
+    return this.getCoverageState(roomId)?.lastDigestDate !== local.date;
+  }
+
+  /**
+   * Daily Digest Tick
+   *
+   * WHY DIRECT DELIVERY (NOT PROVIDER-DRIVEN):
+   * - A digest is something the room opted into at a known time, not a nudge
+   * - It's a full daily-recap report; the agent's conversational turn isn't the right vehicle
+   *
+   * Muted rooms are skipped -- user feedback still wins over schedules.
+   */
+  async dailyDigestTick(): Promise<void> {
+    const now = Date.now();
+
+    for (const [roomIdStr, roomConfig] of this.outputRooms.entries()) {
+      const roomId = roomIdStr as UUID;
+      try {
+        if (!this.isDigestDue(roomId, now)) continue;
+
+        const state = this.getCoverageState(roomId);
+        if (state?.mutedUntil && now < state.mutedUntil) continue;
+
+        await this.deliverDailyDigest(roomId);
+      } catch (error) {
+        this.runtime.logger.error(
+          { scope: LOG_SCOPE, error, roomName: roomConfig.name },
+          'Error delivering daily digest'
+        );
+      }
+    }
+  }
+
+  /**
+   * Build and send a daily-recap digest for one room from the last 24h of stories.
+   * @returns The report, or null if there was nothing to report
+   */
+  async deliverDailyDigest(roomId: UUID): Promise<NewsReport | null> {
+    const roomConfig = this.getOutputRoomConfig(roomId);
+    if (!roomConfig) return null;
+
+    const now = Date.now();
+    const oneDayAgo = now - 24 * 60 * 60 * 1000;
+    const stories = (await this.filterStoriesForRoom(roomId, await this.getStories())).filter(
+      // Stories without timestamps can't be dated; include them rather than drop news
+      (s) => (s.updatedAt ?? s.firstSeenAt ?? now) >= oneDayAgo
+    );
+
+    const state = this.getCoverageState(roomId) || this.createCoverageState(roomId, roomConfig);
+    const local = this.getLocalTime(now, roomConfig.digest?.hour !== undefined ? roomConfig.timezone : undefined);
+
+    if (stories.length === 0) {
+      this.runtime.logger.info({ scope: LOG_SCOPE, roomName: roomConfig.name }, 'No stories for daily digest');
+      state.lastDigestDate = local.date; // Don't retry every 15min for the rest of the day
+      await this.saveCoverageState(state);
+      return null;
+    }
+
+    const report = await this.generateReport(
+      'daily-recap',
+      stories.map((s) => s.id),
+      { roomId, platform: roomConfig.platform, stories }
+    );
+
+    // The report is saved now: a failed send counts as today's digest, otherwise every
+    // 15min tick would generate (and save) another one for the rest of the day
+    state.lastDigestDate = local.date;
+    try {
+      await this.runtime.sendMessageToTarget(
+        { source: roomConfig.platform, roomId, channelId: roomConfig.channelId },
+        { text: report.content, source: roomConfig.platform }
+      );
+      state.lastDigestAt = now;
+    } finally {
+      await this.saveCoverageState(state);
+    }
+
+    this.runtime.logger.info(
+      { scope: LOG_SCOPE, roomName: roomConfig.name, storyCount: stories.length, wordCount: report.wordCount },
+      'Delivered daily digest'
+    );
+    return report;
+  }
+
+  // ============================================================================
+  // Subscriptions
+  // ============================================================================
+
+  private async loadSubscriptions(): Promise<void> {
+    try {
+      const memories = await this.runtime.getMemories({
+        tableName: 'reporter_subscriptions',
+        agentId: this.runtime.agentId,
+        count: 1000,
+        unique: false,
+      });
+
+      for (const memory of memories) {
+        const meta = memory.metadata as Record<string, unknown> | undefined;
+        if (meta?.id && meta?.clientId) {
+          this.subscriptions.set(meta.id as string, meta as unknown as Subscription);
+        }
+      }
+
+      this.runtime.logger.debug(
+        { scope: LOG_SCOPE, count: memories.length },
+        'Loaded subscriptions'
+      );
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error }, 'Error loading subscriptions');
+    }
+  }
+
+  /**
+   * Persist a subscription. The memory ID is the subscription ID, so updates
+   * don't need a lookup.
+   */
+  private async saveSubscription(subscription: Subscription, isNew = false): Promise<void> {
+    this.subscriptions.set(subscription.id, subscription);
+
+    try {
+      const metadata = { type: MemoryType.CUSTOM as string, ...subscription } as Record<string, unknown>;
+      if (isNew) {
+        const memory = {
+          id: subscription.id,
+          entityId: subscription.clientId,
+          agentId: this.runtime.agentId,
+          roomId: subscription.roomId,
+          content: { text: `Subscription: ${subscription.reportType} (${subscription.deliverySchedule})` },
+          createdAt: subscription.createdAt,
+          metadata,
+        } as Memory;
+        await this.runtime.createMemory(memory, 'reporter_subscriptions');
+      } else {
+        await this.runtime.updateMemory({ id: subscription.id, metadata } as Partial<Memory> & { id: UUID });
+      }
+    } catch (error) {
+      this.runtime.logger.error(
+        { scope: LOG_SCOPE, error, subscriptionId: subscription.id },
+        'Error saving subscription'
+      );
+    }
+  }
+
+  /**
+   * Resolve 'daily' / 'weekly' to a cron expression at the default delivery hour
+   * (REPORTER_DAILY_DIGEST_HOUR_UTC). Anything else is treated as cron and returned as-is.
+   */
+  resolveDeliverySchedule(schedule: string): string {
+    const hour = this.reporterConfig.dailyDigestHourUtc;
+    if (schedule === 'daily') return `0 ${hour} * * *`;
+    if (schedule === 'weekly') return `0 ${hour} * * 1`; // Mondays
+    return schedule;
+  }
+
+  /**
+   * Subscription price: REPORTER_SUBSCRIPTION_MONTHLY_PRICE per started 30-day month
+   */
+  getSubscriptionPrice(durationMs: number): number {
+    const months = Math.max(1, Math.ceil(durationMs / SUBSCRIPTION_DEFAULT_DURATION_MS));
+    return this.reporterConfig.subscriptionMonthlyPrice * months;
+  }
+
+  /**
+   * Quote a subscription delivering `reportType` to `roomId` on a cron schedule.
+   *
+   * WHY A QUOTE (NOT AN INSTANT SUBSCRIPTION):
+   * - SUBSCRIBE used to start a paid subscription on the spot, with no price agreed
+   * - Accepting the quote (ACCEPT_REPORT_JOB) creates a payable job and starts the
+   *   subscription; the job is delivered, and invoiced, with the first report
+   *
+   * @throws Error if the report type or schedule is invalid, or there's no source to deliver through
+   */
+  async quoteSubscription(params: {
+    clientId: UUID;
+    roomId: UUID;
+    source?: string;
+    reportType: ReportType;
+    brief: string;
+    schedule?: string; // 'daily' | 'weekly' | cron (UTC); default daily
+    durationMs?: number;
+  }): Promise<ReportQuote> {
+    const metadata = this.getReportTypeMetadata(params.reportType);
+    if (!metadata) {
+      throw new Error(`Unknown report type: ${params.reportType}`);
+    }
+    if (!params.source) {
+      throw new Error('No delivery source for this room');
+    }
+
+    const deliverySchedule = this.resolveDeliverySchedule(params.schedule || 'daily');
+    if (!isValidCron(deliverySchedule)) {
+      throw new Error(`Invalid delivery schedule: ${deliverySchedule}`);
+    }
+
+    const durationMs = params.durationMs ?? SUBSCRIPTION_DEFAULT_DURATION_MS;
+    const months = Math.max(1, Math.ceil(durationMs / SUBSCRIPTION_DEFAULT_DURATION_MS));
+    const monthlyPrice = this.reporterConfig.subscriptionMonthlyPrice;
+    const price = this.getSubscriptionPrice(durationMs);
+
+    return this.createQuote({
+      clientId: params.clientId,
+      roomId: params.roomId,
+      source: params.source,
+      reportType: params.reportType,
+      topic: `${metadata.name} subscription`,
+      brief: params.brief,
+      priceBreakdown: {
+        reportType: params.reportType,
+        basePrice: monthlyPrice,
+        lineItems: [
+          { label: `${metadata.name} subscription, ${months} × $${monthlyPrice}/month`, amount: price },
+        ],
+        total: price,
+      },
+      subscription: { deliverySchedule, durationMs },
+    });
+  }
+
+  /**
+   * Start the subscription for an accepted subscription quote
+   * @throws Error if the report type or schedule is invalid, or there's no source to deliver through
+   */
+  private async createSubscription(params: {
+    clientId: UUID;
+    roomId: UUID;
+    source?: string;
+    reportType: ReportType;
+    deliverySchedule: string; // Cron (UTC)
+    durationMs: number;
+    price: number;
+    jobId: UUID;
+  }): Promise<Subscription> {
+    if (!this.getReportTypeMetadata(params.reportType)) {
+      throw new Error(`Unknown report type: ${params.reportType}`);
+    }
+    // Deliveries go through sendMessageToTarget, which needs the room's platform
+    if (!params.source) {
+      throw new Error('No delivery source for this room');
+    }
+
+    const { deliverySchedule } = params;
+    if (!isValidCron(deliverySchedule)) {
+      throw new Error(`Invalid delivery schedule: ${deliverySchedule}`);
+    }
+
+    const now = Date.now();
+    const subscription: Subscription = {
+      id: uuidv4() as UUID,
+      clientId: params.clientId,
+      reportType: params.reportType,
+      deliverySchedule,
+      startDate: now,
+      endDate: now + params.durationMs,
+      price: params.price,
+      status: 'active',
+      roomId: params.roomId,
+      source: params.source,
+      createdAt: now,
+      nextDeliveryAt: getNextCronTime(deliverySchedule, now) ?? undefined,
+      deliveryCount: 0,
+      jobId: params.jobId,
+    };
+
+    await this.saveSubscription(subscription, true);
+
+    this.runtime.logger.info(
+      {
+        scope: LOG_SCOPE,
+        subscriptionId: subscription.id,
+        clientId: subscription.clientId,
+        reportType: subscription.reportType,
+        deliverySchedule,
+        endDate: new Date(subscription.endDate).toISOString(),
+      },
+      'Created subscription'
+    );
+    return subscription;
+  }
+
+  /**
+   * Cancel an active subscription. Only the subscriber can cancel when clientId is given.
+   * Before the first delivery its job is cancelled too and credited in full, so nothing is
+   * billed (the client-cancel policy is for reports that were being written).
+   * @returns The cancelled subscription, or null if not found / not theirs / not active
+   */
+  async cancelSubscription(subscriptionId: UUID, clientId?: UUID): Promise<Subscription | null> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription || subscription.status !== 'active') return null;
+    if (clientId && subscription.clientId !== clientId) return null;
+
+    const cancelled = await this.endSubscription(subscription, 'cancelled');
+    const job = subscription.jobId ? await this.getJob(subscription.jobId) : null;
+    if (job?.status === 'accepted') {
+      const cancelledJob = await this.transitionJob(job, 'cancelled', { cancelledBy: 'client' });
+      await this.creditJob(cancelledJob, 1, 'client-cancelled');
+    }
+
+    this.runtime.logger.info(
+      { scope: LOG_SCOPE, subscriptionId, clientId: subscription.clientId },
+      'Cancelled subscription'
+    );
+    return cancelled;
+  }
+
+  private async endSubscription(
+    subscription: Subscription,
+    status: 'cancelled' | 'expired'
+  ): Promise<Subscription> {
+    const ended: Subscription = {
+      ...subscription,
+      status,
+      cancelledAt: status === 'cancelled' ? Date.now() : subscription.cancelledAt,
+      nextDeliveryAt: undefined,
+    };
+    await this.saveSubscription(ended);
+    return ended;
+  }
+
+  getSubscription(subscriptionId: UUID): Subscription | null {
+    return this.subscriptions.get(subscriptionId) || null;
+  }
+
+  /**
+   * Subscriptions, newest first. Active only unless includeInactive.
+   */
+  getSubscriptions(options: { clientId?: UUID; includeInactive?: boolean } = {}): Subscription[] {
+    return [...this.subscriptions.values()]
+      .filter((s) => !options.clientId || s.clientId === options.clientId)
+      .filter((s) => options.includeInactive || s.status === 'active')
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Subscription Delivery Tick
+   *
+   * - Expires subscriptions past their endDate
+   * - Delivers every subscription whose nextDeliveryAt has passed
+   *
+   * WHY ONE DELIVERY PER TICK (NOT ONE PER MISSED SLOT):
+   * - After downtime, a subscriber wants the latest report, not a backlog of stale ones
+   * - nextDeliveryAt is recomputed from now, skipping slots that were missed
+   */
+  async subscriptionTick(): Promise<void> {
+    const now = Date.now();
+
+    for (const subscription of this.getSubscriptions()) {
+      try {
+        if (now >= subscription.endDate) {
+          await this.endSubscription(subscription, 'expired');
+          this.runtime.logger.info(
+            { scope: LOG_SCOPE, subscriptionId: subscription.id },
+            'Subscription expired'
+          );
+
+          // Ran out without a single delivery: there's nothing to bill
+          const job = subscription.jobId ? await this.getJob(subscription.jobId) : null;
+          if (job?.status === 'accepted') {
+            const expired = await this.transitionJob(job, 'cancelled', { cancelledBy: 'expired' });
+            await this.creditJob(expired, 1, 'subscription-expired');
+          }
+          continue;
+        }
+
+        if (subscription.nextDeliveryAt === undefined || now < subscription.nextDeliveryAt) continue;
+
+        await this.deliverSubscriptionReport(subscription);
+      } catch (error) {
+        this.runtime.logger.error(
+          { scope: LOG_SCOPE, error, subscriptionId: subscription.id },
+          'Error delivering subscription report'
+        );
+      }
+    }
+  }
+
+  /**
+   * Generate and send one report for a subscription, covering stories since the
+   * previous delivery (at most 7 days back).
+   * @returns The report, or null if there were no new stories
+   */
+  async deliverSubscriptionReport(subscription: Subscription): Promise<NewsReport | null> {
+    const now = Date.now();
+    const lastDelivery = subscription.lastDeliveredAt ?? subscription.startDate - 24 * 60 * 60 * 1000;
+    const since = Math.max(lastDelivery, now - SUBSCRIPTION_MAX_LOOKBACK_MS);
+    const stories = (await this.getStories()).filter(
+      // Stories without timestamps can't be dated; include them rather than drop news
+      (s) => (s.updatedAt ?? s.firstSeenAt ?? now) >= since
+    );
+
+    const nextDeliveryAt = getNextCronTime(subscription.deliverySchedule, now) ?? undefined;
+
+    if (stories.length === 0) {
+      // Skipped deliveries don't count; try again at the next slot
+      await this.saveSubscription({ ...subscription, nextDeliveryAt });
+      this.runtime.logger.info(
+        { scope: LOG_SCOPE, subscriptionId: subscription.id },
+        'No new stories for subscription delivery'
+      );
+      return null;
+    }
+
+    let report: NewsReport;
+    try {
+      report = await this.generateReport(
+        subscription.reportType,
+        stories.map((s) => s.id),
+        { roomId: subscription.roomId, platform: subscription.source, requestedBy: subscription.clientId, stories }
+      );
+      await this.runtime.sendMessageToTarget(
+        { source: subscription.source, roomId: subscription.roomId },
+        { text: `# ${report.title}\n\n${report.content}`, source: subscription.source }
+      );
+    } catch (error) {
+      // A failed slot moves on to the next one like a skipped slot does -- otherwise every
+      // 5min tick would write (and save) another full report until endDate
+      await this.saveSubscription({
+        ...subscription,
+        nextDeliveryAt,
+        lastFailedAt: now,
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    await this.saveSubscription({
+      ...subscription,
+      lastDeliveredAt: now,
+      nextDeliveryAt,
+      deliveryCount: subscription.deliveryCount + 1,
+      lastError: undefined,
+    });
+    if (subscription.jobId && report.id) {
+      await this.deliverSubscriptionJob(subscription.jobId, report.id);
+    }
+
+    this.runtime.logger.info(
+      { scope: LOG_SCOPE, subscriptionId: subscription.id, storyCount: stories.length, wordCount: report.wordCount },
+      'Delivered subscription report'
+    );
+    return report;
+  }
+
+  /**
+   * The subscription's job is delivered (and invoiced) with its first report. If that
+   * fails the job goes back to accepted, so the next delivery tries again.
+   */
+  private async deliverSubscriptionJob(jobId: UUID, reportId: UUID): Promise<void> {
+    try {
+      const job = await this.getJob(jobId);
+      if (job?.status !== 'accepted') return;
+      await this.transitionJob(job, 'in-progress', { reportId });
+      await this.markJobDelivered(jobId);
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error, jobId }, 'Error delivering subscription job');
+      try {
+        const current = await this.getJob(jobId);
+        if (current?.status === 'in-progress') await this.transitionJob(current, 'accepted');
+      } catch (revertError) {
+        this.runtime.logger.error(
+          { scope: LOG_SCOPE, error: revertError, jobId },
+          'Error returning subscription job to accepted'
+        );
+      }
+    }
+  }
+
+  // ============================================================================
+  // Client Profiles
+  // ============================================================================
+
+  private async loadClientProfiles(): Promise<void> {
+    try {
+      const memories = await this.runtime.getMemories({
+        tableName: 'reporter_clients',
+        agentId: this.runtime.agentId,
+        count: 1000,
+        unique: false,
+      });
+
+      for (const memory of memories) {
+        const meta = memory.metadata as Record<string, unknown> | undefined;
+        if (meta?.clientId) {
+          this.clientProfiles.set(meta.clientId as string, meta as unknown as ClientProfile);
+        }
+      }
+
+      this.runtime.logger.debug(
+        { scope: LOG_SCOPE, count: memories.length },
+        'Loaded client profiles'
+      );
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error }, 'Error loading client profiles');
+    }
+  }
+
+  /**
+   * Persist a profile. The memory ID is derived from the client ID, so updates don't
+   * need a lookup and a client never gets two profiles.
+   */
+  private async saveClientProfile(profile: ClientProfile, isNew = false): Promise<void> {
+    this.clientProfiles.set(profile.clientId, profile);
+
+    try {
+      const id = createUniqueUuid(this.runtime, `reporter-client-${profile.clientId}`);
+      const metadata = { type: MemoryType.CUSTOM as string, ...profile } as Record<string, unknown>;
+      if (isNew) {
+        const memory = {
+          id,
+          entityId: profile.clientId,
+          agentId: this.runtime.agentId,
+          roomId: this.runtime.agentId,
+          content: { text: `Client profile: ${profile.clientId}` },
+          createdAt: profile.createdAt,
+          metadata,
+        } as Memory;
+        await this.runtime.createMemory(memory, 'reporter_clients');
+      } else {
+        await this.runtime.updateMemory({ id, metadata } as Partial<Memory> & { id: UUID });
+      }
+    } catch (error) {
+      this.runtime.logger.error(
+        { scope: LOG_SCOPE, error, clientId: profile.clientId },
+        'Error saving client profile'
+      );
+    }
+  }
+
+  private async updateClientProfile(
+    clientId: UUID,
+    update: (profile: ClientProfile, now: number) => ClientProfile
+  ): Promise<ClientProfile> {
+    const now = Date.now();
+    const existing = this.clientProfiles.get(clientId);
+    const profile = update(existing || createClientProfile(clientId, now), now);
+    await this.saveClientProfile(profile, !existing);
+    return profile;
+  }
+
+  getClientProfile(clientId: UUID): ClientProfile | null {
+    return this.clientProfiles.get(clientId) || null;
+  }
+
+  /**
+   * The client's most commissioned report type, if they've commissioned anything
+   */
+  getPreferredReportType(clientId: UUID): ReportType | null {
+    const profile = this.clientProfiles.get(clientId);
+    const [preferred] = profile ? topPreferences(profile.reportTypeCounts, 1) : [];
+    return preferred && this.getReportTypeMetadata(preferred) ? preferred : null;
+  }
+
+  /**
+   * Add a note on how this client wants reports written (style revision feedback, or set
+   * explicitly by an operator or the client)
+   */
+  async addClientToneNote(clientId: UUID, note: string): Promise<ClientProfile> {
+    return this.updateClientProfile(clientId, (profile, now) => withToneNote(profile, note, now));
+  }
+
+  // ============================================================================
+  // Quotes
+  // ============================================================================
+
+  private async loadQuotes(): Promise<void> {
+    try {
+      const memories = await this.runtime.getMemories({
+        tableName: 'reporter_quotes',
+        agentId: this.runtime.agentId,
+        start: Date.now() - QUOTE_RETENTION_MS,
+        count: 1000,
+        unique: false,
+      });
+
+      for (const memory of memories) {
+        const meta = memory.metadata as Record<string, unknown> | undefined;
+        if (meta?.id && meta?.clientId) {
+          this.quotes.set(meta.id as string, meta as unknown as ReportQuote);
+        }
+      }
+
+      this.runtime.logger.debug({ scope: LOG_SCOPE, count: memories.length }, 'Loaded quotes');
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error }, 'Error loading quotes');
+    }
+  }
+
+  /**
+   * Persist a quote. The memory ID is the quote ID, so updates don't need a lookup.
+   */
+  private async saveQuote(quote: ReportQuote, isNew = false): Promise<void> {
+    this.quotes.set(quote.id, quote);
+
+    try {
+      const metadata = { type: MemoryType.CUSTOM as string, ...quote } as Record<string, unknown>;
+      if (isNew) {
+        const memory = {
+          id: quote.id,
+          entityId: quote.clientId,
+          agentId: this.runtime.agentId,
+          roomId: quote.roomId,
+          content: { text: `Quote: ${quote.reportType} on "${quote.topic}" for $${quote.price}` },
+          createdAt: quote.createdAt,
+          metadata,
+        } as Memory;
+        await this.runtime.createMemory(memory, 'reporter_quotes');
+      } else {
+        await this.runtime.updateMemory({ id: quote.id, metadata } as Partial<Memory> & { id: UUID });
+      }
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error, quoteId: quote.id }, 'Error saving quote');
+    }
+  }
+
+  /**
+   * Open quotes past expiresAt read as expired (persisted lazily, on acceptance attempts)
+   */
+  private withQuoteExpiry(quote: ReportQuote, now = Date.now()): ReportQuote {
+    return quote.status === 'open' && now >= quote.expiresAt ? { ...quote, status: 'expired' } : quote;
+  }
+
+  /**
+   * Reopen the quote a lost job was accepted from (fresh expiry), so the client can
+   * accept it again. Null if there's no such quote.
+   */
+  private async reopenQuoteForJob(jobId: UUID): Promise<ReportQuote | null> {
+    const quote = [...this.quotes.values()].find((q) => q.jobId === jobId && q.status === 'accepted');
+    if (!quote) return null;
+
+    const now = Date.now();
+    const reopened: ReportQuote = {
+      ...quote,
+      status: 'open',
+      jobId: undefined,
+      expiresAt: now + this.reporterConfig.quoteExpiryHours * 60 * 60 * 1000,
+    };
+    await this.saveQuote(reopened);
+    this.runtime.logger.warn({ scope: LOG_SCOPE, quoteId: quote.id, jobId }, 'Reopened quote of a lost job');
+    return reopened;
+  }
+
+  /**
+   * Record a quote for the requester, valid for REPORTER_QUOTE_EXPIRY_HOURS
+   */
+  async createQuote(params: {
+    clientId: UUID;
+    roomId: UUID;
+    source?: string;
+    reportType: ReportType;
+    topic: string;
+    brief: string;
+    priceBreakdown: PriceBreakdown;
+    rush?: boolean;
+    targetWordCount?: number;
+    bundleId?: UUID;
+    stories?: Story[];
+    subscription?: ReportQuote['subscription'];
+  }): Promise<ReportQuote> {
+    const now = Date.now();
+    const quote: ReportQuote = {
+      id: uuidv4() as UUID,
+      clientId: params.clientId,
+      roomId: params.roomId,
+      source: params.source,
+      reportType: params.reportType,
+      topic: params.topic,
+      brief: params.brief,
+      price: params.priceBreakdown.total,
+      priceBreakdown: params.priceBreakdown,
+      rush: params.rush,
+      targetWordCount: params.targetWordCount,
+      bundleId: params.bundleId,
+      stories: params.stories,
+      subscription: params.subscription,
+      status: 'open',
+      createdAt: now,
+      expiresAt: now + this.reporterConfig.quoteExpiryHours * 60 * 60 * 1000,
+    };
+    await this.saveQuote(quote, true);
+
+    this.runtime.logger.info(
+      { scope: LOG_SCOPE, quoteId: quote.id, clientId: quote.clientId, reportType: quote.reportType, price: quote.price },
+      'Created quote'
+    );
+    return quote;
+  }
+
+  getQuote(quoteId: UUID): ReportQuote | null {
+    const quote = this.quotes.get(quoteId);
+    return quote ? this.withQuoteExpiry(quote) : null;
+  }
+
+  /**
+   * Quotes matching a filter, newest first
+   */
+  findQuotes(
+    filter: { clientId?: UUID; roomId?: UUID; status?: ReportQuoteStatus } = {}
+  ): ReportQuote[] {
+    const now = Date.now();
+    return [...this.quotes.values()]
+      .map((q) => this.withQuoteExpiry(q, now))
+      .filter((q) => !filter.clientId || q.clientId === filter.clientId)
+      .filter((q) => !filter.roomId || q.roomId === filter.roomId)
+      .filter((q) => !filter.status || q.status === filter.status)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Resolve which quote an acceptance in this room refers to
+   *
+   * WHY BOUND TO REQUESTER + ROOM:
+   * - "yes, do it" from anyone, anywhere used to accept (guessed from lastAction)
+   * - Only the requester's own open quote in the room it was given counts; expired or
+   *   someone else's quote is reported back so the agent can say so
+   *
+   * @param quoteRef - Quote ID or ID prefix the requester mentioned, if any
+   */
+  resolveQuoteForAcceptance(clientId: UUID, roomId: UUID, quoteRef?: string): QuoteResolution {
+    const roomQuotes = this.findQuotes({ roomId });
+
+    const withBundle = (quote: ReportQuote): QuoteResolution => ({
+      status: 'open',
+      quotes: quote.bundleId
+        ? roomQuotes.filter((q) => q.bundleId === quote.bundleId && q.status === 'open')
+        : [quote],
+    });
+
+    if (quoteRef) {
+      const quote = roomQuotes.find((q) => q.id.startsWith(quoteRef));
+      if (!quote || quote.status === 'accepted') return { status: 'none' };
+      if (quote.clientId !== clientId) return { status: 'foreign', quote };
+      if (quote.status === 'expired') return { status: 'expired', quote };
+      return withBundle(quote);
+    }
+
+    const own = roomQuotes.filter((q) => q.clientId === clientId && q.status !== 'accepted');
+    const openQuote = own.find((q) => q.status === 'open');
+    if (openQuote) return withBundle(openQuote);
+    if (own.length > 0) return { status: 'expired', quote: own[0] };
+
+    const foreign = roomQuotes.find((q) => q.status === 'open');
+    if (foreign) return { status: 'foreign', quote: foreign };
+
+    return { status: 'none' };
+  }
+
+  /**
+   * Accept an open quote (and the rest of its bundle): creates the job(s) and moves them
+   * to 'accepted'. A subscription quote also starts its subscription (job.subscriptionId).
+   * @throws Error if the quote isn't open, has expired, or belongs to someone else
+   */
+  async acceptQuote(quoteId: UUID, clientId: UUID): Promise<ReportJob[]> {
+    const quote = this.getQuote(quoteId);
+    if (!quote) throw new Error(`Quote ${quoteId} not found`);
+    if (quote.clientId !== clientId) throw new Error(`Quote ${quoteId} belongs to another client`);
+    if (quote.status === 'expired') {
+      await this.saveQuote(quote);
+      throw new Error(`Quote ${quoteId} expired`);
+    }
+    if (quote.status !== 'open') throw new Error(`Quote ${quoteId} is already ${quote.status}`);
+
+    const bundle = quote.bundleId
+      ? this.findQuotes({ clientId, roomId: quote.roomId, status: 'open' }).filter(
+          (q) => q.bundleId === quote.bundleId
+        )
+      : [quote];
+
+    const jobs: ReportJob[] = [];
+    for (const q of bundle) {
+      const job = await this.createJobFromQuote(q);
+      if (q.subscription) {
+        // No single report to promise a time for; delivered with the first scheduled report
+        const subscription = await this.createSubscription({
+          clientId,
+          roomId: q.roomId,
+          source: q.source,
+          reportType: q.reportType,
+          deliverySchedule: q.subscription.deliverySchedule,
+          durationMs: q.subscription.durationMs,
+          price: q.price,
+          jobId: job.id,
+        });
+        jobs.push(await this.transitionJob(job, 'accepted', { subscriptionId: subscription.id }));
+      } else {
+        const dueAt = Date.now() + this.getDeliveryTimeMs(job.reportType, job.rush);
+        jobs.push(await this.transitionJob(job, 'accepted', { dueAt }));
+      }
+      await this.saveQuote({ ...q, status: 'accepted', jobId: job.id });
+    }
+    return jobs;
+  }
+
+  /**
+   * The job starts in 'quoted' as of the quote's creation, so its history covers the quote
+   */
+  private async createJobFromQuote(quote: ReportQuote): Promise<ReportJob> {
+    const job: ReportJob = {
+      id: uuidv4() as UUID,
+      quoteId: quote.id,
+      clientId: quote.clientId,
+      roomId: quote.roomId,
+      source: quote.source,
+      reportType: quote.reportType,
+      price: quote.price,
+      priceBreakdown: quote.priceBreakdown,
+      rush: quote.rush,
+      targetWordCount: quote.targetWordCount,
+      bundleId: quote.bundleId,
+      topic: quote.topic,
+      brief: quote.brief,
+      storyIds: (quote.stories || []).map((s) => s.id),
+      stories: quote.stories,
+      status: 'quoted',
+      statusHistory: [{ status: 'quoted', at: quote.createdAt }],
+      createdAt: quote.createdAt,
+      updatedAt: Date.now(),
+    };
+    await this.getJobStore().save(job);
+
+    this.runtime.logger.info(
+      { scope: LOG_SCOPE, jobId: job.id, quoteId: quote.id, reportType: job.reportType, price: job.price },
+      'Created job from quote'
+    );
+    return job;
+  }
+
+  // ============================================================================
+  // Commissioned Jobs
+  // ============================================================================
+
+  /**
+   * WHY RESOLVED LAZILY:
+   * - plugin-commerce may start after the reporter (same as the investigator)
+   * - Resolved once, so jobs never split across two stores
+   */
+  private getJobStore(): ReportJobStore {
+    if (!this.jobStore) {
+      this.jobStore = resolveJobStore(this.runtime, {
+        jobs: this.localJobs,
+        persist: (job, isNew) => this.saveLocalJob(job, isNew),
+      });
+      this.runtime.logger.info(
+        { scope: LOG_SCOPE, backend: this.jobStore.backend },
+        'Using job store'
+      );
+    }
+    return this.jobStore;
+  }
+
+  private async loadLocalJobs(): Promise<void> {
+    try {
+      const memories = await this.runtime.getMemories({
+        tableName: 'reporter_jobs',
+        agentId: this.runtime.agentId,
+        count: 1000,
+        unique: false,
+      });
+
+      for (const memory of memories) {
+        const meta = memory.metadata as Record<string, unknown> | undefined;
+        if (meta?.id && meta?.clientId) {
+          this.localJobs.set(meta.id as string, meta as unknown as ReportJob);
+        }
+      }
+
+      this.runtime.logger.debug({ scope: LOG_SCOPE, count: memories.length }, 'Loaded local jobs');
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error }, 'Error loading local jobs');
+    }
+  }
+
+  /**
+   * Persist a local-store job. The memory ID is the job ID, so updates don't need a lookup.
+   */
+  private async saveLocalJob(job: ReportJob, isNew: boolean): Promise<void> {
+    try {
+      const metadata = { type: MemoryType.CUSTOM as string, ...job } as Record<string, unknown>;
+      if (isNew) {
+        const memory = {
+          id: job.id,
+          entityId: job.clientId,
+          agentId: this.runtime.agentId,
+          roomId: job.roomId,
+          content: { text: `Job: ${job.reportType} for $${job.price}` },
+          createdAt: job.createdAt,
+          metadata,
+        } as Memory;
+        await this.runtime.createMemory(memory, 'reporter_jobs');
+      } else {
+        await this.runtime.updateMemory({ id: job.id, metadata } as Partial<Memory> & { id: UUID });
+      }
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error, jobId: job.id }, 'Error saving job');
+    }
+  }
+
+  getJobBackend(): 'commerce' | 'local' {
+    return this.getJobStore().backend;
+  }
+
+  async getJob(jobId: UUID): Promise<ReportJob | null> {
+    return this.getJobStore().get(jobId);
+  }
+
+  /**
+   * Jobs matching a filter, newest first
+   */
+  async findJobs(filter: ReportJobFilter = {}): Promise<ReportJob[]> {
+    return this.getJobStore().list(filter);
+  }
+
+  /**
+   * Move a job to a new status, enforcing JOB_TRANSITIONS.
+   * @throws Error on a transition the lifecycle doesn't allow
+   */
+  private async transitionJob(
+    job: ReportJob,
+    status: ReportJobStatus,
+    updates: Partial<ReportJob> = {}
+  ): Promise<ReportJob> {
+    const updated = transitionedJob(job, status, updates, Date.now());
+    await this.getJobStore().save(updated);
+
+    this.runtime.logger.info(
+      { scope: LOG_SCOPE, jobId: job.id, from: job.status, to: status, backend: this.getJobBackend() },
+      'Job status changed'
+    );
+    return updated;
+  }
+
+  /**
+   * Generate the report for an accepted job (accepted → in-progress).
+   * On failure the job goes back to 'accepted' so it can be retried.
+   * @throws Error if the job isn't accepted, or generation fails
+   */
+  async fulfillJob(jobId: UUID): Promise<{ job: ReportJob; report: NewsReport }> {
+    const job = await this.getJob(jobId);
+    if (!job || job.status !== 'accepted') {
+      throw new Error(`Job ${jobId} is not ready to start (${job?.status ?? 'not found'})`);
+    }
+    if (job.subscriptionId) {
+      throw new Error(`Job ${jobId} is delivered by subscription ${job.subscriptionId}, not written on its own`);
+    }
+
+    let inProgress = await this.transitionJob(job, 'in-progress');
+    try {
+      const report = await this.generateReport(job.reportType, job.storyIds, {
+        stories: job.stories,
+        jobId: job.id,
+        requestedBy: job.clientId,
+        roomId: job.roomId,
+        platform: job.source,
+        brief: job.brief,
+        targetWordCount: job.targetWordCount,
+      });
+
+      // The client or the deadline watcher may have cancelled it while we were writing
+      const current = await this.getJob(job.id);
+      if (current?.status !== 'in-progress') {
+        throw new Error(`Job ${job.id} was ${current?.status ?? 'removed'} while the report was being written`);
+      }
+
+      inProgress = { ...current, reportId: report.id, updatedAt: Date.now() };
+      await this.getJobStore().save(inProgress);
+      return { job: inProgress, report };
+    } catch (error) {
+      const current = await this.getJob(job.id);
+      if (current?.status === 'in-progress') await this.transitionJob(current, 'accepted');
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a job delivered (in-progress with a report → delivered)
+   */
+  async markJobDelivered(jobId: UUID): Promise<ReportJob> {
+    let job = await this.getJob(jobId);
+    if (!job) throw new Error(`Job ${jobId} not found`);
+    if (!job.reportId) throw new Error(`Job ${jobId} has no report to deliver`);
+
+    // Late delivery the watcher hasn't caught yet still gets the breach credit
+    if (this.isPastDeadline(job, Date.now()) && !job.slaBreachedAt) {
+      job = await this.flagSlaBreach(job, false);
+    }
+    const delivered = await this.transitionJob(job, 'delivered');
+    await this.issueInvoice(delivered);
+    // Counted once delivered: cancelled jobs aren't commissions the client got
+    // ("Trend Report subscription" isn't a topic preference)
+    const counted = delivered.subscriptionId ? { ...delivered, topic: undefined } : delivered;
+    await this.updateClientProfile(delivered.clientId, (profile, now) => withJob(profile, counted, now));
+    // Paid upfront: nothing left to wait for
+    return delivered.paidAt ? this.transitionJob(delivered, 'paid') : delivered;
+  }
+
+  /**
+   * Record a confirmed payment. Called by the payment sync (commerce confirmed it) or
+   * MARK_JOB_PAID (an operator did). A delivered job becomes 'paid'; a job paid before
+   * delivery, or a cancelled job's remaining fee, keeps its status and gets paidAt.
+   * @throws Error if the job isn't found, is already paid or owes nothing
+   */
+  async markJobPaid(
+    jobId: UUID,
+    paidBy: NonNullable<ReportJob['paidBy']> = 'operator',
+    paidAt = Date.now()
+  ): Promise<ReportJob> {
+    const job = await this.getJob(jobId);
+    if (!job) throw new Error(`Job ${jobId} not found`);
+    if (job.paidAt || job.status === 'paid') throw new Error(`Job ${jobId} is already paid`);
+    if (job.status === 'quoted' || amountOwed(job) <= 0) throw new Error(`Job ${jobId} has nothing to pay`);
+
+    let paid: ReportJob;
+    if (job.status === 'delivered') {
+      paid = await this.transitionJob(job, 'paid', { paidAt, paidBy });
+    } else {
+      paid = { ...job, paidAt, paidBy, updatedAt: Date.now() };
+      await this.getJobStore().save(paid);
+    }
+
+    const charged = chargedAmount(paid);
+    await this.updateClientProfile(paid.clientId, (profile, now) => ({
+      ...profile,
+      totalSpend: round2(profile.totalSpend + charged - refundedAmount(paid)),
+      updatedAt: now,
+    }));
+    await this.syncInvoice(paid);
+    return paid;
+  }
+
+  /**
+   * Cancel a job before delivery and credit it per policy: REPORTER_CANCEL_REFUND_ACCEPTED
+   * before work starts, REPORTER_CANCEL_REFUND_IN_PROGRESS once it has. Jobs already past
+   * their deadline are credited in full -- the client isn't cancelling on a whim.
+   * The credit is refunded if the job was paid and waived otherwise; a fee still owed
+   * gets an invoice. Only the client can cancel when clientId is given.
+   * @returns The cancelled job, or null if not found / not theirs / already delivered
+   */
+  async cancelJob(jobId: UUID, clientId?: UUID): Promise<ReportJob | null> {
+    const job = await this.getJob(jobId);
+    if (!job || !JOB_TRANSITIONS[job.status].includes('cancelled')) return null;
+    if (clientId && job.clientId !== clientId) return null;
+
+    const creditShare = job.slaBreachedAt
+      ? 1
+      : job.status === 'in-progress'
+        ? this.reporterConfig.cancelRefundInProgress
+        : this.reporterConfig.cancelRefundAccepted;
+
+    const cancelled = await this.transitionJob(job, 'cancelled', { cancelledBy: 'client' });
+    const subscription = job.subscriptionId ? this.subscriptions.get(job.subscriptionId) : undefined;
+    if (subscription?.status === 'active') await this.endSubscription(subscription, 'cancelled');
+    const credited = await this.creditJob(cancelled, creditShare, 'client-cancelled');
+    if (amountOwed(credited) > 0) await this.issueInvoice(credited);
+    return credited;
+  }
+
+  /**
+   * Bring the job's credits up to `share` of its price (credits accumulate, so a breach
+   * credit followed by a cancellation never exceeds the price). What was paid is refunded;
+   * the rest is waived -- nothing is charged before payment is confirmed.
+   */
+  private async creditJob(job: ReportJob, share: number, reason: JobCreditReason): Promise<ReportJob> {
+    const { refund, waiver } = planSettlement(job, share);
+    if (refund <= 0 && waiver <= 0) return job;
+
+    const now = Date.now();
+    const updated: ReportJob = { ...job, updatedAt: now };
+
+    if (refund > 0) {
+      let settledBy: JobRefund['settledBy'] = 'manual';
+      try {
+        settledBy = await this.getJobStore().refund(job, refund, reason);
+      } catch (error) {
+        this.runtime.logger.error(
+          { scope: LOG_SCOPE, error, jobId: job.id, amount: refund },
+          'Commerce refund failed, recorded for manual settlement'
+        );
+      }
+      updated.refunds = [...(job.refunds || []), { amount: refund, reason, at: now, settledBy }];
+      await this.updateClientProfile(job.clientId, (profile, at) => ({
+        ...profile,
+        totalSpend: round2(Math.max(0, profile.totalSpend - refund)),
+        updatedAt: at,
+      }));
+    }
+    if (waiver > 0) {
+      updated.waivers = [...(job.waivers || []), { amount: waiver, reason, at: now }];
+    }
+    await this.getJobStore().save(updated);
+
+    this.runtime.logger.info({ scope: LOG_SCOPE, jobId: job.id, refund, waiver, reason }, 'Credited job');
+    await this.syncInvoice(updated);
+    return updated;
+  }
+
+  // ============================================================================
+  // Invoices
+  // ============================================================================
+
+  private async loadInvoiceSequence(): Promise<void> {
+    const year = new Date().getUTCFullYear();
+    this.invoiceSequence = { year, sequence: 0 };
+    try {
+      for (const invoice of await this.findInvoices({ from: Date.UTC(year, 0, 1) })) {
+        const sequence = parseInvoiceSequence(invoice.number, this.reporterConfig.invoicePrefix, year);
+        this.invoiceSequence.sequence = Math.max(this.invoiceSequence.sequence, sequence);
+      }
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error }, 'Error loading invoice sequence');
+    }
+  }
+
+  private nextInvoiceNumber(now: number): string {
+    const year = new Date(now).getUTCFullYear();
+    if (year !== this.invoiceSequence.year) this.invoiceSequence = { year, sequence: 0 };
+    this.invoiceSequence.sequence++;
+    return formatInvoiceNumber(this.reporterConfig.invoicePrefix, year, this.invoiceSequence.sequence);
+  }
+
+  private getInvoiceConfig(): InvoiceConfig {
+    return {
+      prefix: this.reporterConfig.invoicePrefix,
+      currency: this.reporterConfig.invoiceCurrency,
+      taxRate: this.reporterConfig.taxRate,
+      fee: this.reporterConfig.invoiceFee,
+    };
+  }
+
+  /**
+   * Issue the invoice for a delivered job (once). Failures are logged, not thrown --
+   * a missing invoice must not undo a delivery.
+   */
+  private async issueInvoice(job: ReportJob): Promise<Invoice | null> {
+    try {
+      const existing = await this.getInvoiceForJob(job.id);
+      if (existing) return existing;
+
+      const now = Date.now();
+      const invoice = buildInvoice(
+        job,
+        {
+          id: uuidv4() as UUID,
+          number: this.nextInvoiceNumber(now),
+          now,
+        },
+        this.getInvoiceConfig()
+      );
+      await this.saveInvoice(invoice, true);
+
+      this.runtime.logger.info(
+        { scope: LOG_SCOPE, invoice: invoice.number, jobId: job.id, total: invoice.total },
+        'Issued invoice'
+      );
+      return invoice;
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error, jobId: job.id }, 'Error issuing invoice');
+      return null;
+    }
+  }
+
+  /**
+   * Bring an issued invoice's payment status and refunds in line with its job
+   */
+  private async syncInvoice(job: ReportJob): Promise<void> {
+    try {
+      const invoice = await this.getInvoiceForJob(job.id);
+      if (!invoice) return;
+      await this.saveInvoice(withPayment(invoice, job, Date.now()));
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error, jobId: job.id }, 'Error updating invoice');
+    }
+  }
+
+  /**
+   * Persist an invoice. The memory ID is the invoice ID; issuedAt is the memory's
+   * createdAt so period queries can use the memory API's date range.
+   */
+  private async saveInvoice(invoice: Invoice, isNew = false): Promise<void> {
+    const metadata = { type: MemoryType.CUSTOM as string, ...invoice } as Record<string, unknown>;
+    const content = { text: renderInvoiceMarkdown(invoice) };
+    if (isNew) {
+      const memory = {
+        id: invoice.id,
+        entityId: invoice.clientId,
+        agentId: this.runtime.agentId,
+        roomId: this.runtime.agentId,
+        content,
+        createdAt: invoice.issuedAt,
+        metadata,
+      } as Memory;
+      await this.runtime.createMemory(memory, 'reporter_invoices');
+    } else {
+      await this.runtime.updateMemory({ id: invoice.id, content, metadata } as Partial<Memory> & { id: UUID });
+    }
+  }
+
+  /**
+   * Invoices issued in [from, to] (default: all), newest first
+   */
+  async findInvoices(
+    filter: { clientId?: UUID; jobId?: UUID; from?: number; to?: number; paymentStatus?: InvoicePaymentStatus } = {}
+  ): Promise<Invoice[]> {
+    const memories = await this.runtime.getMemories({
+      tableName: 'reporter_invoices',
+      agentId: this.runtime.agentId,
+      roomId: this.runtime.agentId,
+      start: filter.from,
+      end: filter.to,
+      count: 1000,
+      unique: false,
+    });
+
+    return memories
+      .map((m) => m.metadata as unknown as Invoice | undefined)
+      .filter((i): i is Invoice => !!i?.number)
+      .filter((i) => !filter.clientId || i.clientId === filter.clientId)
+      .filter((i) => !filter.jobId || i.jobId === filter.jobId)
+      .filter((i) => !filter.paymentStatus || i.paymentStatus === filter.paymentStatus)
+      .sort((a, b) => b.issuedAt - a.issuedAt);
+  }
+
+  async getInvoiceForJob(jobId: UUID): Promise<Invoice | null> {
+    const [invoice] = await this.findInvoices({ jobId });
+    return invoice || null;
+  }
+
+  /**
+   * Invoice by number ("NR-2026-0042", case-insensitive) or ID
+   */
+  async getInvoice(ref: string): Promise<Invoice | null> {
+    const refLower = ref.toLowerCase();
+    const invoices = await this.findInvoices();
+    return invoices.find((i) => i.number.toLowerCase() === refLower || i.id === ref) || null;
+  }
+
+  /**
+   * Revenue for invoices issued in [from, to]: totals, refunds, paid vs outstanding,
+   * per report type. For reconciliation without reading plugin-commerce's records.
+   */
+  async summarizeInvoices(from: number, to: number): Promise<InvoiceSummary> {
+    const invoices = await this.findInvoices({ from, to });
+    return summarizeInvoices(invoices, from, to, this.reporterConfig.invoiceCurrency);
+  }
+
+  /**
+   * NEWS_PAYMENT_SYNC: jobs whose payment commerce has confirmed are marked paid
+   * (delivered ones become 'paid'; client spend and invoice follow). Open jobs are polled
+   * too, in case commerce takes payment upfront, and cancelled ones still owing a fee.
+   * Nothing to poll without commerce.
+   */
+  async syncJobPayments(): Promise<void> {
+    const store = this.getJobStore();
+    if (store.backend !== 'commerce') return;
+
+    const unpaid = await this.findJobs({ status: ['accepted', 'in-progress', 'delivered', 'cancelled'] });
+    for (const job of unpaid.filter((j) => amountOwed(j) > 0)) {
+      try {
+        const payment = await store.payment(job);
+        if (payment) await this.markJobPaid(job.id, 'commerce', payment.paidAt);
+      } catch (error) {
+        this.runtime.logger.error({ scope: LOG_SCOPE, error, jobId: job.id }, 'Error syncing job payment');
+      }
+    }
+  }
+
+  /**
+   * Owners and admins of the message's world (server) run the operator actions
+   */
+  async isOperator(message: Memory): Promise<boolean> {
+    if (message.entityId === this.runtime.agentId) return true;
+    const room = await this.runtime.getRoom(message.roomId);
+    const world = room?.worldId ? await this.runtime.getWorld(room.worldId) : null;
+    const role = world?.metadata?.roles?.[message.entityId];
+    return role === Role.OWNER || role === Role.ADMIN;
+  }
+
+  // ============================================================================
+  // Delivery Deadlines
+  // ============================================================================
+
+  private isPastDeadline(job: ReportJob, now: number, extraMinutes = 0): boolean {
+    if (!job.dueAt) return false;
+    return now > job.dueAt + (this.reporterConfig.slaGraceMinutes + extraMinutes) * 60 * 1000;
+  }
+
+  /**
+   * NEWS_JOB_DEADLINE_CHECK: accepted / in-progress jobs past dueAt (plus grace) get the
+   * breach refund once; still undelivered REPORTER_SLA_CANCEL_AFTER_MINUTES later, they're
+   * cancelled with a full refund. The client is told either way.
+   */
+  async jobDeadlineTick(): Promise<void> {
+    const now = Date.now();
+    const cancelAfter = this.reporterConfig.slaCancelAfterMinutes;
+    const open = await this.findJobs({ status: ['accepted', 'in-progress'] });
+
+    for (const job of open) {
+      if (!this.isPastDeadline(job, now)) continue;
+      try {
+        if (cancelAfter > 0 && this.isPastDeadline(job, now, cancelAfter)) {
+          await this.cancelOverdueJob(job);
+        } else if (!job.slaBreachedAt) {
+          await this.flagSlaBreach(job);
+        }
+      } catch (error) {
+        this.runtime.logger.error({ scope: LOG_SCOPE, error, jobId: job.id }, 'Error handling missed deadline');
+      }
+    }
+  }
+
+  /**
+   * Record the breach and apply the REPORTER_SLA_BREACH_REFUND credit. `stillOpen` = the
+   * report hasn't been delivered yet (the watcher), so the client can still cancel.
+   */
+  private async flagSlaBreach(job: ReportJob, stillOpen = true): Promise<ReportJob> {
+    const flagged: ReportJob = { ...job, slaBreachedAt: Date.now(), updatedAt: Date.now() };
+    await this.getJobStore().save(flagged);
+    const credited = await this.creditJob(flagged, this.reporterConfig.slaBreachRefund, 'sla-breach');
+
+    this.runtime.logger.warn(
+      { scope: LOG_SCOPE, jobId: job.id, dueAt: job.dueAt, status: job.status },
+      'Job missed its promised delivery time'
+    );
+
+    const refund = round2(refundedAmount(credited) - refundedAmount(job));
+    const waiver = round2(waivedAmount(credited) - waivedAmount(job));
+    const promised = new Date(job.dueAt ?? Date.now()).toUTCString();
+    await this.notifyJobClient(
+      credited,
+      `Your ${job.reportType.replace(/-/g, ' ')} (job ${job.id.slice(0, 8)}) missed its promised delivery time (${promised}). ` +
+        (refund > 0
+          ? `I've refunded $${refund} for the delay.`
+          : waiver > 0
+            ? `I've taken $${waiver} off the price for the delay.`
+            : 'Sorry for the delay.') +
+        (stillOpen ? ' It\'s still being worked on, or you can cancel it.' : '')
+    );
+    return credited;
+  }
+
+  private async cancelOverdueJob(job: ReportJob): Promise<ReportJob> {
+    const cancelled = await this.transitionJob(job, 'cancelled', {
+      cancelledBy: 'deadline',
+      slaBreachedAt: job.slaBreachedAt ?? Date.now(),
+    });
+    const credited = await this.creditJob(cancelled, 1, 'sla-cancelled');
+
+    const refunded = refundedAmount(credited);
+    await this.notifyJobClient(
+      credited,
+      `I couldn't deliver your ${job.reportType.replace(/-/g, ' ')} (job ${job.id.slice(0, 8)}) in time, ` +
+        `so I've cancelled it. ` +
+        (refunded > 0 ? `You've been refunded in full ($${refunded}).` : 'You won\'t be charged for it.')
+    );
+    return credited;
+  }
+
+  private async notifyJobClient(job: ReportJob, text: string): Promise<void> {
+    await this.postToRoom(job.roomId, job.source, text);
+  }
+
+  /**
+   * Post outside of a message handler (deadline notices, queue progress)
+   */
+  /**
+   * Post outside of a reply. 'unsupported' = the agent can't post to this room on its own
+   * (no source, or no send handler for it) -- retrying won't help.
+   */
+  private async postToRoom(
+    roomId: UUID,
+    source: string | undefined,
+    text: string
+  ): Promise<'sent' | 'unsupported' | 'failed'> {
+    if (!source) {
+      this.runtime.logger.warn({ scope: LOG_SCOPE, roomId }, 'Room has no source, message not sent');
+      return 'unsupported';
+    }
+    try {
+      await this.runtime.sendMessageToTarget({ source, roomId }, { text, source });
+      return 'sent';
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error, roomId }, 'Error posting to room');
+      // The runtime has no way to ask whether a source can be sent to; this is how it says no
+      return error instanceof Error && /no send handler/i.test(error.message) ? 'unsupported' : 'failed';
+    }
+  }
+
+  // ============================================================================
+  // Generation Queue
+  // ============================================================================
+
+  /**
+   * Queue a report for background generation. Commissioned reports pass jobId (the job
+   * must be accepted); progress and the finished report are posted to roomId.
+   *
+   * WHY A QUEUE:
+   * - A deep dive takes minutes; writing it inline blocked the message handler
+   * - Entries are persisted as tasks, so a restart resumes them instead of losing them
+   * - REPORTER_GENERATION_CONCURRENCY caps how many reports hit the model at once
    */
-  async coveragePumpTick(): Promise<void> {
+  async enqueueReport(params: {
+    reportType: ReportType;
+    stories?: Story[];
+    storyIds?: UUID[]; // Without snapshots: looked up again when it's written
+    jobId?: UUID;
+    requestedBy: UUID;
+    roomId: UUID;
+    source?: string;
+    brief?: string;
+    targetWordCount?: number;
+  }): Promise<QueuedReport> {
+    if (!this.getReportTypeMetadata(params.reportType)) {
+      throw new Error(`Unknown report type: ${params.reportType}`);
+    }
+    if (params.jobId) {
+      const active = await this.getQueuedReports({ jobId: params.jobId, status: ['queued', 'running'] });
+      if (active.length > 0) return active[0];
+    }
+
+    const entry: QueuedReport = {
+      id: uuidv4() as UUID,
+      reportType: params.reportType,
+      storyIds: params.stories ? params.stories.map((s) => s.id) : params.storyIds || [],
+      stories: params.stories,
+      jobId: params.jobId,
+      requestedBy: params.requestedBy,
+      roomId: params.roomId,
+      source: params.source,
+      brief: params.brief,
+      targetWordCount: params.targetWordCount,
+      status: 'queued',
+      attempts: 0,
+      queuedAt: Date.now(),
+    };
+
+    await this.runtime.createTask({
+      id: entry.id,
+      name: GENERATION_TASK_NAME,
+      description: `Write ${entry.reportType} for ${entry.requestedBy}`,
+      roomId: entry.roomId,
+      entityId: entry.requestedBy,
+      metadata: { updatedAt: entry.queuedAt, queuedReport: entry },
+      tags: ['newsreporter-generation'],
+    });
+
+    this.runtime.logger.info(
+      { scope: LOG_SCOPE, queueId: entry.id, reportType: entry.reportType, jobId: entry.jobId },
+      'Queued report'
+    );
+
+    // Start now if a slot is free rather than waiting for the next tick
+    void this.processGenerationQueue();
+    return entry;
+  }
+
+  /**
+   * Queue entries, oldest first
+   */
+  async getQueuedReports(
+    filter: { requestedBy?: UUID; roomId?: UUID; jobId?: UUID; status?: QueuedReportStatus[] } = {}
+  ): Promise<QueuedReport[]> {
+    const tasks = (await this.runtime.getTasksByName(GENERATION_TASK_NAME)) || [];
+    return tasks
+      .map((t) => t.metadata?.queuedReport as QueuedReport | undefined)
+      .filter((e): e is QueuedReport => !!e?.id)
+      .filter((e) => !filter.requestedBy || e.requestedBy === filter.requestedBy)
+      .filter((e) => !filter.roomId || e.roomId === filter.roomId)
+      .filter((e) => !filter.jobId || e.jobId === filter.jobId)
+      .filter((e) => !filter.status || filter.status.includes(e.status))
+      .sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  /**
+   * 1-based place among waiting entries (0 once it's being written or finished)
+   */
+  async getQueuePosition(entryId: UUID): Promise<number> {
+    const waiting = await this.getQueuedReports({ status: ['queued'] });
+    return waiting.findIndex((e) => e.id === entryId) + 1;
+  }
+
+  /**
+   * Expected completion: running = started + delivery time; queued = rough estimate
+   * assuming the entries ahead share the concurrency slots.
+   */
+  async getQueueEta(entry: QueuedReport): Promise<number | null> {
+    const deliveryMs = this.getDeliveryTimeMs(entry.reportType);
+    if (entry.status === 'running') return (entry.startedAt ?? Date.now()) + deliveryMs;
+    if (entry.status !== 'queued') return null;
+
+    const position = await this.getQueuePosition(entry.id);
+    const rounds = Math.floor((position - 1) / this.reporterConfig.generationConcurrency) + 1;
+    return Date.now() + rounds * deliveryMs;
+  }
+
+  private async saveQueuedReport(entry: QueuedReport): Promise<void> {
     try {
-      const now = Date.now();
+      await this.runtime.updateTask(entry.id, { metadata: { updatedAt: Date.now(), queuedReport: entry } });
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error, queueId: entry.id }, 'Error saving queued report');
+    }
+  }
 
-      for (const [roomIdStr, roomConfig] of this.outputRooms.entries()) {
-        const roomId = roomIdStr as UUID;
-        const existingState = this.getCoverageState(roomId);
+  private async recoverGenerationQueue(): Promise<void> {
+    try {
+      const orphaned = await this.getQueuedReports({ status: ['running'] });
+      for (const entry of orphaned) {
+        await this.saveQueuedReport({ ...entry, status: 'queued' });
 
-        // Initialize state if needed
-        const state: CoverageState = existingState || {
-          roomId,
-          roomName: roomConfig.name,
-          platform: roomConfig.platform,
-          lastMentionAt: 0,
-          mentionCount24h: 0,
-          cadenceMs: roomConfig.cadenceMs || this.reporterConfig.defaultCadenceMs,
-          strikes: 0,
-        };
+        // Its job was left in-progress by the process that died
+        const job = entry.jobId ? await this.getJob(entry.jobId) : null;
+        if (job?.status === 'in-progress') await this.transitionJob(job, 'accepted');
+      }
+      if (orphaned.length > 0) {
+        this.runtime.logger.info(
+          { scope: LOG_SCOPE, count: orphaned.length },
+          'Requeued reports interrupted by a restart'
+        );
+      }
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error }, 'Error recovering generation queue');
+    }
+  }
 
-        if (!existingState) {
-          await this.saveCoverageState(state);
+  /**
+   * NEWS_GENERATION_QUEUE: start queued entries while slots are free, drop finished
+   * entries past GENERATION_QUEUE_RETENTION_MS. Each run is fire-and-forget so the
+   * task worker never waits on the model.
+   */
+  async processGenerationQueue(): Promise<void> {
+    try {
+      const now = Date.now();
+      const entries = await this.getQueuedReports();
+
+      for (const entry of entries) {
+        const finished = entry.status === 'done' || entry.status === 'failed';
+        if (finished && now - (entry.finishedAt ?? entry.queuedAt) > GENERATION_QUEUE_RETENTION_MS) {
+          await this.runtime.deleteTask(entry.id);
         }
+      }
 
-        // Safeguard gauntlet (v1 subset)
+      // A failed attempt waits one tick before its retry
+      const waiting = entries.filter(
+        (e) =>
+          e.status === 'queued' &&
+          !this.runningGenerations.has(e.id) &&
+          !(e.error && e.startedAt && now - e.startedAt < GENERATION_QUEUE_CHECK_INTERVAL_MS)
+      );
+      for (const entry of waiting) {
+        if (this.runningGenerations.size >= this.reporterConfig.generationConcurrency) break;
 
-        // 1. Muted?
-        if (state.mutedUntil && now < state.mutedUntil) {
-          continue; // Skip
-        }
+        this.runningGenerations.add(entry.id);
+        void this.runQueuedReport(entry).finally(() => {
+          this.runningGenerations.delete(entry.id);
+          void this.processGenerationQueue();
+        });
+      }
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error }, 'Error processing generation queue');
+    }
+  }
 
-        // 2. Daily cap reached?
-        const oneDayAgo = now - 24 * 60 * 60 * 1000;
-        if (state.lastMentionAt > oneDayAgo && state.mentionCount24h >= this.reporterConfig.dailyMentionCap) {
-          continue; // Skip
-        }
+  private async runQueuedReport(queued: QueuedReport): Promise<void> {
+    let entry: QueuedReport = {
+      ...queued,
+      status: 'running',
+      attempts: queued.attempts + 1,
+      startedAt: Date.now(),
+    };
+    await this.saveQueuedReport(entry);
 
-        // 3. Recent mention? (cadence check)
-        const gap = now - state.lastMentionAt;
-        if (gap < state.cadenceMs) {
-          continue; // Skip - too soon
-        }
+    const name = entry.reportType.replace(/-/g, ' ');
+    if (entry.attempts === 1) {
+      const minutes = Math.round(this.getDeliveryTimeMs(entry.reportType) / 60000);
+      await this.postToRoom(
+        entry.roomId,
+        entry.source,
+        `Started writing your ${name}. I'll post it here in about ${minutes} minutes.`
+      );
+    }
 
-        // 4. Strike decay (v1: simple time-based decay)
-        if (state.strikes > 0) {
-          const lastStrikeAgo = now - state.lastMentionAt;
-          const decayMs = this.reporterConfig.strikeDecayHours * 60 * 60 * 1000;
-          if (lastStrikeAgo > decayMs) {
-            state.strikes = Math.max(0, state.strikes - 1);
-            await this.saveCoverageState(state);
-          }
+    let undeliverable = false;
+    try {
+      // Written on an earlier attempt whose delivery failed: only the delivery is retried
+      let report = entry.reportId ? await this.getReport(entry.reportId) : null;
+      if (entry.jobId) {
+        const job = await this.getJob(entry.jobId);
+        if (!job) {
+          // The store lost it (e.g. removed from commerce): say so and give the quote back
+          const quote = await this.reopenQuoteForJob(entry.jobId);
+          entry = { ...entry, status: 'failed', finishedAt: Date.now(), error: 'Job is gone' };
+          await this.saveQueuedReport(entry);
+          await this.postToRoom(
+            entry.roomId,
+            entry.source,
+            `Sorry, I've lost the job for your ${name}, so I can't write it.` +
+              (quote
+                ? ` Quote ${quote.id.slice(0, 8)} is open again -- accept it to start over.`
+                : ' Ask me for a new quote to start over.')
+          );
+          return;
+        }
+        const awaitingDelivery = job?.status === 'in-progress' && !!job.reportId && job.reportId === report?.id;
+        if (job.status !== 'accepted' && !awaitingDelivery) {
+          // Cancelled, or delivered in conversation (DELIVER_REPORT), while it waited -- nothing to do
+          const done = ['delivered', 'paid'].includes(job.status);
+          entry = done
+            ? { ...entry, status: 'done', finishedAt: Date.now(), error: undefined }
+            : { ...entry, status: 'failed', finishedAt: Date.now(), error: `Job is ${job.status}` };
+          await this.saveQueuedReport(entry);
+          return;
         }
+        if (!awaitingDelivery) ({ report } = await this.fulfillJob(entry.jobId));
+      } else if (!report) {
+        report = await this.generateReport(entry.reportType, entry.storyIds, {
+          stories: entry.stories,
+          requestedBy: entry.requestedBy,
+          roomId: entry.roomId,
+          platform: entry.source,
+          brief: entry.brief,
+          targetWordCount: entry.targetWordCount,
+        });
+      }
+      if (!report) throw new Error(`Report ${entry.reportId} not found`);
+      entry = { ...entry, reportId: report.id };
 
-        // All safeguards passed - this room needs coverage
-        // The STORY_PROMPT provider will pick this up via getCoverageState()
-        this.runtime.logger.debug(
-          { scope: LOG_SCOPE, roomName: state.roomName, gap },
-          'Coverage gap detected'
+      // A job is only delivered once the report is actually posted; until then it stays
+      // in-progress with its reportId, which DELIVER_REPORT can hand over in conversation
+      const posted = await this.postToRoom(entry.roomId, entry.source, `# ${report.title}\n\n${report.content}`);
+      if (posted !== 'sent') {
+        undeliverable = posted === 'unsupported';
+        throw new Error(
+          undeliverable ? 'Can\'t post to this room outside of a reply' : 'Couldn\'t post the report to the room'
+        );
+      }
+      if (entry.jobId) {
+        await this.markJobDelivered(entry.jobId);
+        const invoice = await this.getInvoiceForJob(entry.jobId);
+        await this.postToRoom(
+          entry.roomId,
+          entry.source,
+          'Report delivered! Let me know if you need any revisions or have questions.' +
+            (invoice ? ` Your invoice is ${invoice.number} (ask me for it any time).` : '')
         );
       }
+
+      entry = { ...entry, status: 'done', finishedAt: Date.now(), reportId: report.id, error: undefined };
+      await this.saveQueuedReport(entry);
+      this.runtime.logger.info(
+        { scope: LOG_SCOPE, queueId: entry.id, reportId: report.id, jobId: entry.jobId },
+        'Queued report finished'
+      );
     } catch (error) {
-      this.runtime.logger.error({ scope: LOG_SCOPE, error }, 'Error in coverage pump');
+      const message = error instanceof Error ? error.message : String(error);
+      const retry = !undeliverable && entry.attempts < this.reporterConfig.generationMaxAttempts;
+      entry = retry
+        ? { ...entry, status: 'queued', error: message }
+        : { ...entry, status: 'failed', finishedAt: Date.now(), error: message };
+      await this.saveQueuedReport(entry);
+
+      this.runtime.logger.error(
+        { scope: LOG_SCOPE, error, queueId: entry.id, attempts: entry.attempts, retry },
+        'Queued report failed'
+      );
+      if (!retry && !undeliverable) {
+        await this.postToRoom(
+          entry.roomId,
+          entry.source,
+          entry.reportId
+            ? `Your ${name} is ready, but I couldn't post it here. Ask me for it and I'll send it as a reply.`
+            : `Sorry, I couldn't finish your ${name} after ${entry.attempts} attempts.` +
+                (entry.jobId ? ' The job is still open -- ask me to write it again, or cancel it.' : '')
+        );
+      }
     }
   }
 
   // ============================================================================
-  // Room Context (v2 feature stubs for v1 compatibility)
+  // Report Archive
   // ============================================================================
 
-  async getRoomTopics(roomId: UUID): Promise<string[]> {
-    // v2: Infer room topics from conversation history
-    // v1: Return empty array
-    return [];
+  /**
+   * Search past reports (reporter_reports), newest first, paginated
+   *
+   * Scans the most recent REPORT_SEARCH_SCAN_LIMIT reports (date range applied in the
+   * query) and filters in memory -- the memory API has no metadata or full-text filters.
+   * By default, superseded versions are hidden so a revised report shows up once.
+   */
+  async searchReports(query: ReportSearchQuery = {}): Promise<ReportSearchResult> {
+    const offset = Math.max(0, query.offset || 0);
+    const limit = Math.min(REPORT_SEARCH_MAX_PAGE, Math.max(1, query.limit || 10));
+
+    try {
+      const memories = await this.runtime.getMemories({
+        tableName: 'reporter_reports',
+        agentId: this.runtime.agentId,
+        roomId: this.runtime.agentId,
+        start: query.from,
+        end: query.to,
+        count: REPORT_SEARCH_SCAN_LIMIT,
+        unique: false,
+      });
+
+      let reports = memories
+        .map((m) => this.reportFromMemory(m))
+        .filter((r): r is NewsReport => r !== null);
+
+      if (!query.includeAllVersions) {
+        const superseded = new Set(reports.map((r) => r.parentId).filter(Boolean));
+        reports = reports.filter((r) => !superseded.has(r.id));
+      }
+
+      const title = query.title?.toLowerCase();
+      const words = (query.text || '').toLowerCase().split(/\s+/).filter(Boolean);
+
+      const matches = reports
+        .filter((r) => !query.type || r.type === query.type)
+        .filter((r) => query.from === undefined || r.generatedAt >= query.from)
+        .filter((r) => query.to === undefined || r.generatedAt <= query.to)
+        .filter((r) => !query.storyId || r.storyIds.includes(query.storyId))
+        .filter((r) => !query.jobId || r.jobId === query.jobId)
+        .filter((r) => !query.requestedBy || r.requestedBy === query.requestedBy)
+        .filter(
+          (r) =>
+            !query.visibleTo ||
+            r.requestedBy === query.visibleTo.entityId ||
+            (!r.requestedBy && r.roomId === query.visibleTo.roomId)
+        )
+        .filter((r) => !title || r.title.toLowerCase().includes(title))
+        .filter((r) => {
+          if (words.length === 0) return true;
+          const haystack = `${r.title}\n${r.content}`.toLowerCase();
+          return words.every((w) => haystack.includes(w));
+        })
+        .sort((a, b) => b.generatedAt - a.generatedAt);
+
+      return {
+        reports: matches.slice(offset, offset + limit),
+        total: matches.length,
+        offset,
+        limit,
+        hasMore: offset + limit < matches.length,
+      };
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error }, 'Error searching reports');
+      return { reports: [], total: 0, offset, limit, hasMore: false };
+    }
   }
 
-  pickArchetype(roomId: UUID): StoryArchetype {
-    // v2: Track which archetypes get engagement per room
-    // v1: Random
-    return pickRandomArchetype();
+  // ============================================================================
+  // Revisions
+  // ============================================================================
+
+  /**
+   * Client's most recent report (any version), preferring the given room
+   */
+  async findLatestReport(clientId: UUID, roomId?: UUID): Promise<NewsReport | null> {
+    const { reports } = await this.searchReports({
+      requestedBy: clientId,
+      includeAllVersions: true,
+      limit: REPORT_SEARCH_MAX_PAGE,
+    });
+    return reports.find((r) => roomId && r.roomId === roomId) || reports[0] || null;
+  }
+
+  /**
+   * Free revisions left for a report. Ad-hoc reports (no job) aren't limited. A
+   * commissioned report whose job can't be found counts the revisions in its version chain.
+   */
+  async getRevisionAllowance(
+    report: NewsReport
+  ): Promise<{ limited: boolean; used: number; free: number; remaining: number }> {
+    const free = this.reporterConfig.freeRevisions;
+    if (!report.jobId) {
+      return { limited: false, used: 0, free, remaining: Infinity };
+    }
+
+    const job = await this.getJob(report.jobId);
+    const used = job
+      ? job.revisionCount || 0
+      : Math.max(0, (report.id ? (await this.getReportVersions(report.id)).length : report.version || 1) - 1);
+    return { limited: true, used, free, remaining: Math.max(0, free - used) };
+  }
+
+  /**
+   * Revise a report with client feedback
+   *
+   * WHY TARGETED REWRITE (NOT REGENERATION):
+   * - Clients ask for specific changes; regenerating loses everything they liked
+   * - The model gets the current text and is told to change only what the feedback asks
+   *
+   * Each revision is a new reporter_reports entry (version + 1, parentId = previous),
+   * so every version stays available for diffs. Commissioned jobs count revisions
+   * against REPORTER_FREE_REVISIONS.
+   *
+   * @throws Error if the report doesn't exist or the job has no free revisions left
+   */
+  async reviseReport(reportId: UUID, feedback: string): Promise<NewsReport> {
+    const current = await this.getReport(reportId);
+    if (!current) throw new Error(`Report ${reportId} not found`);
+
+    const allowance = await this.getRevisionAllowance(current);
+    if (allowance.limited && allowance.remaining <= 0) {
+      throw new Error(
+        `No free revisions left for job ${current.jobId} (${allowance.used}/${allowance.free} used)`
+      );
+    }
+
+    const metadata = this.getReportTypeMetadata(current.type);
+    const prompt = `You are revising a ${metadata?.name || current.type} you wrote, based on client feedback.
+
+CLIENT FEEDBACK:
+${feedback}
+
+CURRENT REPORT:
+"""
+${current.content}
+"""
+
+Apply the feedback with a targeted rewrite:
+- Change only what the feedback asks for
+- Keep every other heading, sentence and fact as it is
+- Don't add facts that aren't already in the report
+- Keep the [n] citation markers with the facts they back, and keep the Sources list as it is
+
+Return the complete revised report.`;
+
+    const content = await this.runtime.useModel(ModelType.TEXT_LARGE, { prompt });
+    // Boundaries moved with the rewrite; sections the feedback dropped simply aren't listed
+    const { sections } = locateSections(content, metadata?.structure || []);
+    const citations = current.citations ? citationsInContent(content, current.citations) : undefined;
+
+    const revised: NewsReport = {
+      type: current.type,
+      title: this.extractTitle(content, current.title),
+      content,
+      storyIds: current.storyIds,
+      wordCount: content.split(/\s+/).length,
+      generatedAt: Date.now(),
+      jobId: current.jobId,
+      roomId: current.roomId,
+      requestedBy: current.requestedBy,
+      version: (current.version || 1) + 1,
+      parentId: current.id,
+      revisionFeedback: feedback,
+      sections,
+      citations,
+      // Not re-checked: the rewrite may not add facts, but the parent's results no longer
+      // describe this text exactly
+      verification: current.verification && { ...current.verification, stale: true },
+      lengthControl: current.lengthControl && { ...current.lengthControl, stale: true },
+    };
+    await this.saveReport(revised);
+
+    if (current.jobId) {
+      const job = await this.getJob(current.jobId);
+      if (job) {
+        await this.getJobStore().save({
+          ...job,
+          reportId: revised.id,
+          revisionCount: (job.revisionCount || 0) + 1,
+          updatedAt: Date.now(),
+        });
+      }
+    }
+    // "Fix the date" is about this report; only style feedback carries over to the next one
+    if (current.requestedBy && isStyleFeedback(feedback)) {
+      await this.addClientToneNote(current.requestedBy, feedback);
+    }
+
+    this.runtime.logger.info(
+      {
+        scope: LOG_SCOPE,
+        reportId: revised.id,
+        parentId: current.id,
+        version: revised.version,
+        jobId: current.jobId,
+      },
+      'Revised report'
+    );
+    return revised;
+  }
+
+  /**
+   * All versions of a report up to this one, oldest first (follows parentId links)
+   */
+  async getReportVersions(reportId: UUID): Promise<NewsReport[]> {
+    const versions: NewsReport[] = [];
+    let next: UUID | undefined = reportId;
+
+    while (next && versions.length < 50) {
+      const report = await this.getReport(next);
+      if (!report) break;
+      versions.unshift(report);
+      next = report.parentId;
+    }
+    return versions;
+  }
+
+  /**
+   * Line diff between two versions. Without fromId, diffs against the parent version.
+   * @returns null if either version can't be loaded
+   */
+  async getReportDiff(
+    toId: UUID,
+    fromId?: UUID
+  ): Promise<{ from: NewsReport; to: NewsReport; diff: string } | null> {
+    const to = await this.getReport(toId);
+    const fromRef = fromId || to?.parentId;
+    if (!to || !fromRef) return null;
+
+    const from = await this.getReport(fromRef);
+    if (!from) return null;
+
+    return { from, to, diff: formatDiff(diffLines(from.content, to.content)) };
   }
 
   // ============================================================================
   // Commerce Integration
   // ============================================================================
 
+  /**
+   * Every report type this agent sells: built-ins, then custom types from character settings
+   */
+  getReportTypes(): ReportTypeMetadata[] {
+    return getAllReportTypes(this.customReportTypes);
+  }
+
+  /**
+   * Metadata for a built-in or custom report type (null if this agent doesn't sell it)
+   */
+  getReportTypeMetadata(type: ReportType): ReportTypeMetadata | null {
+    return getReportMetadata(type, this.customReportTypes);
+  }
+
+  /**
+   * Write a report section by section: an outline (title + a plan per declared section),
+   * then each section of the type's structure in order with the draft so far, length
+   * control, a fact-check against the story data, then assembly. Fails if a declared section is
+   * still missing after a retry -- a deep dive without its analysis isn't what the
+   * client paid for.
+   */
   async generateReport(
     type: ReportType,
     storyIds: UUID[],
-    options: any = {}
+    options: GenerateReportOptions = {}
   ): Promise<NewsReport> {
     try {
-      const metadata = getReportMetadata(type);
+      const metadata = this.getReportTypeMetadata(type);
       if (!metadata) {
         throw new Error(`Unknown report type: ${type}`);
       }
 
-      // Get story data (assuming investigator is loaded)
-      const investigatorService = this.runtime.getService('investigator');
-      let stories: any[] = [];
-
-      if (investigatorService && typeof (investigatorService as any).getActiveStories === 'function') {
-        const allStories = await (investigatorService as any).getActiveStories();
-        stories = allStories.filter((s: any) => storyIds.includes(s.id));
+      // Stories are matched against composed state (NEWS_STORIES), which a lookup from here
+      // doesn't have -- so callers pass the snapshots they matched. Without them, look the IDs
+      // up and refuse to write a "sourced" report about stories that are gone.
+      const stories = options.stories ?? (await this.getStoriesByIds(storyIds));
+      const missing = storyIds.filter((id) => !stories.some((s) => s.id === id));
+      if (missing.length > 0) {
+        throw new Error(`Stories no longer available: ${missing.join(', ')}`);
       }
 
-      // Build prompt for report generation
-      const storiesSummary = stories
-        .map((s, i) => `${i + 1}. ${s.title}: ${s.summary}`)
-        .join('\n');
+      // Build prompt for report generation: stories with the numbered sources the model may cite
+      const sourceEntries = buildSourceEntries(stories);
+      const storiesSummary = formatStoriesWithSources(stories, sourceEntries);
+      const citationRule =
+        sourceEntries.length > 0
+          ? 'CITATIONS: Back each fact taken from the stories with its source number in square brackets, e.g. "... staked 10,000 BTC [2]." Use only the source numbers listed above and never invent a source.'
+          : 'CITATIONS: No sources are available, so don\'t add citation markers.';
 
-      const prompt = `You are a professional journalist writing a ${metadata.name}.
+      // Returning clients: write toward what they've asked for before
+      const profile = options.requestedBy ? this.getClientProfile(options.requestedBy) : null;
+      const profileLines = profile ? describeClientProfile(profile) : [];
+      const profileSection =
+        profileLines.length > 0
+          ? `\nCLIENT PROFILE (follow the tone notes unless the request says otherwise):\n${profileLines.join('\n')}\n`
+          : '';
+
+      const targetWordCount = options.targetWordCount ?? metadata.estimatedWordCount;
+      const brief = `You are a professional journalist writing a ${metadata.name}.
 
 ${metadata.guidance}
 
 STORIES TO COVER:
 ${storiesSummary || 'No specific stories provided. Write based on recent developments.'}
 
-TARGET WORD COUNT: ${metadata.estimatedWordCount}
-
-Write the complete ${metadata.name} now.`;
+${citationRule}
+${options.brief ? `\nCLIENT REQUEST:\n${options.brief}\n` : ''}${profileSection}
+TARGET WORD COUNT (whole report): ${targetWordCount}
+${options.platform ? `\nThis will be posted on ${options.platform}. Adapt formatting and tone:\n${getPlatformGuidanceText(options.platform)}` : ''}`;
 
-      const content = await this.runtime.useModel(ModelType.TEXT_LARGE, { prompt });
+      const written = await this.writeSections(metadata, brief, targetWordCount, sourceEntries, storiesSummary);
+      const { title, content, sections, citations, verification, lengthControl } = written;
 
       const report: NewsReport = {
         type,
-        title: this.extractTitle(content, metadata.name),
+        title,
         content,
         storyIds,
         wordCount: content.split(/\s+/).length,
         generatedAt: Date.now(),
         jobId: options.jobId,
+        roomId: options.roomId,
+        requestedBy: options.requestedBy,
+        version: 1,
+        sections,
+        citations,
+        verification,
+        lengthControl,
       };
 
       // Save report
@@ -576,6 +3765,246 @@ Write the complete ${metadata.name} now.`;
     }
   }
 
+  private async writeSections(
+    metadata: ReportTypeMetadata,
+    brief: string,
+    targetWordCount: number,
+    sourceEntries: SourceEntry[],
+    storyData: string
+  ): Promise<{
+    title: string;
+    content: string;
+    sections: ReportSection[];
+    citations: ReportCitation[];
+    verification: ReportVerification;
+    lengthControl: ReportLengthControl;
+  }> {
+    const { structure } = metadata;
+    const bodyKeys = structure.filter((key) => !isHeadlineSection(key) && !isSourcesSection(key));
+    const budgets = sectionWordBudgets(structure, targetWordCount);
+
+    // Pass 1: outline
+    const outlineText = await this.runtime.useModel(ModelType.TEXT_LARGE, {
+      prompt: `${brief}
+
+Plan the ${metadata.name} before writing it. Reply with one line per entry, in this order:
+title: <the headline>
+${bodyKeys.map((key) => `${key}: <what this section covers, one sentence>`).join('\n')}`,
+    });
+    const outline = parseOutline(outlineText, structure);
+    const title = outline.title?.replace(/^#+\s*/, '').trim() || metadata.name;
+    const outlineLines = bodyKeys
+      .map((key) => `- ${sectionHeading(key)}: ${outline.plans[key] || '(not planned, use your judgement)'}`)
+      .join('\n');
+
+    // Pass 2: each section, with what's been written so far for continuity
+    const bodies: Record<string, string> = {};
+    for (const key of bodyKeys) {
+      const draft = assembleSections(title, structure.slice(0, structure.indexOf(key)), bodies);
+      const prompt = `${brief}
+
+REPORT TITLE: ${title}
+
+OUTLINE:
+${outlineLines}
+
+REPORT SO FAR:
+"""
+${draft}
+"""
+
+Write only the "${sectionHeading(key)}" section, about ${budgets[key]} words. Follow the outline, don't repeat earlier sections, and don't include the section heading.`;
+
+      // One retry: an empty section is usually a model hiccup, not a real gap
+      for (let attempt = 0; attempt < 2 && !bodies[key]; attempt++) {
+        const text = await this.runtime.useModel(ModelType.TEXT_LARGE, { prompt });
+        bodies[key] = stripSectionHeading(text || '', key);
+      }
+    }
+
+    // Pass 3: bring the draft into the type's word-count band
+    const tolerance = metadata.wordCountTolerance ?? this.reporterConfig.wordCountTolerance;
+    const draftWordCount = totalWords(bodies, bodyKeys);
+    const adjustments = await this.adjustSectionLengths(
+      bodies,
+      bodyKeys,
+      budgets,
+      brief,
+      targetWordCount,
+      tolerance
+    );
+
+    // Pass 4: fact-check against the story data, rewriting sections with problems
+    const verification = await this.factCheckSections(bodies, bodyKeys, storyData);
+
+    // Corrections drop or reword claims, which can take the draft back out of its band;
+    // a draft still inside it is left alone
+    adjustments.push(
+      ...(await this.adjustSectionLengths(bodies, bodyKeys, budgets, brief, targetWordCount, tolerance))
+    );
+    const lengthControl = summarizeLength(
+      targetWordCount,
+      tolerance,
+      draftWordCount,
+      totalWords(bodies, bodyKeys),
+      adjustments
+    );
+    if (!lengthControl.withinTolerance) {
+      this.runtime.logger.warn(
+        {
+          scope: LOG_SCOPE,
+          total: lengthControl.finalWordCount,
+          targetWordCount,
+          minWords: lengthControl.minWords,
+          maxWords: lengthControl.maxWords,
+        },
+        'Report still outside its word-count band'
+      );
+    }
+
+    // Pass 5: check citations against the offered sources, render the bibliography,
+    // assemble and check every declared section made it
+    const cited = citeSections(bodies, bodyKeys, sourceEntries);
+    const bibliography = renderBibliography(cited.citations);
+    let content: string;
+    if (structure.some(isSourcesSection)) {
+      content = assembleSections(title, structure, { ...cited.bodies, sources: bibliography });
+    } else {
+      content = assembleSections(title, structure, cited.bodies);
+      if (cited.citations.length > 0) content += `\n\n## Sources\n\n${bibliography}`;
+    }
+
+    const { sections, missing } = locateSections(content, structure);
+    if (missing.length > 0) {
+      throw new Error(`${metadata.name} is missing required sections: ${missing.join(', ')}`);
+    }
+    return { title, content, sections, citations: cited.citations, verification, lengthControl };
+  }
+
+  /**
+   * Expand or condense the sections furthest from their word budget until the draft is
+   * within ±tolerance of the target (LENGTH_CONTROL_MAX_ROUNDS rounds at most).
+   * Updates bodies in place; a failed adjustment keeps the section as it was.
+   */
+  private async adjustSectionLengths(
+    bodies: Record<string, string>,
+    keys: string[],
+    budgets: Record<string, number>,
+    brief: string,
+    targetWordCount: number,
+    tolerance: number
+  ): Promise<ReportLengthControl['adjustments']> {
+    const band = lengthBand(targetWordCount, tolerance);
+    const done: ReportLengthControl['adjustments'] = [];
+
+    for (let round = 0; round < LENGTH_CONTROL_MAX_ROUNDS; round++) {
+      const plan = planLengthAdjustments(bodies, keys, budgets, band, targetWordCount);
+      if (plan.length === 0) break;
+
+      for (const adjustment of plan) {
+        const fromWords = countBodyWords(bodies[adjustment.section]);
+        try {
+          const heading = sectionHeading(adjustment.section);
+          const text = await this.runtime.useModel(ModelType.TEXT_LARGE, {
+            prompt: buildLengthPrompt(brief, heading, bodies[adjustment.section], adjustment),
+          });
+          const body = stripSectionHeading(text || '', adjustment.section);
+          if (!body) continue;
+          bodies[adjustment.section] = body;
+          done.push({
+            section: adjustment.section,
+            action: adjustment.action,
+            fromWords,
+            toWords: countBodyWords(body),
+          });
+        } catch (error) {
+          this.runtime.logger.warn(
+            { scope: LOG_SCOPE, error, section: adjustment.section },
+            'Section length adjustment failed'
+          );
+        }
+      }
+    }
+    return done;
+  }
+
+  /**
+   * Check the draft's factual claims against the story data, rewrite (once) each section
+   * with unsupported or contradicted claims, then re-check the rewritten sections.
+   * Updates bodies in place. Never fails generation: a check that can't run is recorded
+   * as skipped, a re-check that can't run leaves the rewrites revised-unverified.
+   */
+  private async factCheckSections(
+    bodies: Record<string, string>,
+    keys: string[],
+    storyData: string
+  ): Promise<ReportVerification> {
+    if (!this.reporterConfig.factCheck) {
+      return skippedVerification('fact-check disabled (REPORTER_FACT_CHECK)', Date.now());
+    }
+    if (!storyData) {
+      return skippedVerification('no story data to check against', Date.now());
+    }
+
+    let claims: CheckedClaim[] | null = null;
+    try {
+      const response = await this.runtime.useModel(ModelType.TEXT_LARGE, {
+        prompt: buildFactCheckPrompt(storyData, bodies, keys),
+      });
+      claims = parseFactCheck(response, bodies, keys);
+    } catch (error) {
+      this.runtime.logger.warn({ scope: LOG_SCOPE, error }, 'Fact-check failed');
+    }
+    if (!claims) {
+      return skippedVerification('fact-check response was unusable', Date.now());
+    }
+
+    const revisedSections: string[] = [];
+    for (const key of keys) {
+      const problems = claims.filter((c) => c.section === key && isProblemClaim(c));
+      if (problems.length === 0) continue;
+
+      try {
+        const corrected = await this.runtime.useModel(ModelType.TEXT_LARGE, {
+          prompt: buildCorrectionPrompt(storyData, sectionHeading(key), bodies[key], problems),
+        });
+        const body = stripSectionHeading(corrected || '', key);
+        if (!body) continue;
+        bodies[key] = body;
+        revisedSections.push(key);
+      } catch (error) {
+        this.runtime.logger.warn({ scope: LOG_SCOPE, error, section: key }, 'Fact-check correction failed');
+      }
+    }
+
+    if (revisedSections.length > 0) {
+      let recheck: CheckedClaim[] | null = null;
+      try {
+        const response = await this.runtime.useModel(ModelType.TEXT_LARGE, {
+          prompt: buildFactCheckPrompt(storyData, bodies, revisedSections),
+        });
+        recheck = parseFactCheck(response, bodies, revisedSections);
+      } catch (error) {
+        this.runtime.logger.warn({ scope: LOG_SCOPE, error, revisedSections }, 'Fact-check re-check failed');
+      }
+      claims.push(...applyRecheck(claims, revisedSections, recheck));
+    }
+
+    const verification = summarizeVerification(claims, revisedSections, Date.now());
+    this.runtime.logger.info(
+      {
+        scope: LOG_SCOPE,
+        status: verification.status,
+        supported: verification.supported,
+        unsupported: verification.unsupported,
+        contradicted: verification.contradicted,
+        revisedSections,
+      },
+      'Fact-checked report'
+    );
+    return verification;
+  }
+
   private extractTitle(content: string, fallback: string): string {
     // Try to extract title from first line or heading
     const lines = content.trim().split('\n');
@@ -583,10 +4012,49 @@ Write the complete ${metadata.name} now.`;
     return firstLine.length > 0 && firstLine.length < 100 ? firstLine : fallback;
   }
 
+  /**
+   * Load a saved report by its reporter_reports ID
+   */
+  async getReport(reportId: UUID): Promise<NewsReport | null> {
+    try {
+      const memory = await this.runtime.getMemoryById(reportId);
+      return memory ? this.reportFromMemory(memory) : null;
+    } catch (error) {
+      this.runtime.logger.error({ scope: LOG_SCOPE, error, reportId }, 'Error loading report');
+      return null;
+    }
+  }
+
+  private reportFromMemory(memory: Memory): NewsReport | null {
+    const meta = memory.metadata as Record<string, unknown> | undefined;
+    if (!memory.id || !meta?.reportType) return null;
+
+    return {
+      id: memory.id,
+      type: meta.reportType as ReportType,
+      title: meta.title as string,
+      content: memory.content.text || '',
+      storyIds: (meta.storyIds as UUID[]) || [],
+      wordCount: meta.wordCount as number,
+      generatedAt: meta.generatedAt as number,
+      jobId: meta.jobId as UUID | undefined,
+      roomId: meta.targetRoomId as UUID | undefined,
+      requestedBy: meta.requestedBy as UUID | undefined,
+      version: (meta.version as number) || 1,
+      parentId: meta.parentId as UUID | undefined,
+      revisionFeedback: meta.revisionFeedback as string | undefined,
+      sections: meta.sections as ReportSection[] | undefined,
+      citations: meta.citations as ReportCitation[] | undefined,
+      verification: meta.verification as ReportVerification | undefined,
+      lengthControl: meta.lengthControl as ReportLengthControl | undefined,
+    };
+  }
+
   private async saveReport(report: NewsReport): Promise<void> {
+    report.id = uuidv4() as UUID;
     try {
       const memory = {
-        id: uuidv4() as UUID,
+        id: report.id,
         entityId: this.runtime.agentId,
         agentId: this.runtime.agentId,
         roomId: this.runtime.agentId,
@@ -602,6 +4070,15 @@ Write the complete ${metadata.name} now.`;
           generatedAt: report.generatedAt,
           storyIds: report.storyIds,
           jobId: report.jobId,
+          targetRoomId: report.roomId,
+          requestedBy: report.requestedBy,
+          version: report.version,
+          parentId: report.parentId,
+          revisionFeedback: report.revisionFeedback,
+          sections: report.sections,
+          citations: report.citations,
+          verification: report.verification,
+          lengthControl: report.lengthControl,
         },
       } as Memory;
 
@@ -611,8 +4088,51 @@ Write the complete ${metadata.name} now.`;
     }
   }
 
+  /**
+   * Base (list) price: REPORTER_BRIEFING_BASE_PRICE / REPORTER_DEEPDIVE_BASE_PRICE where
+   * configured, else the report type's basePrice
+   */
   getPriceForReportType(type: ReportType): number {
-    const metadata = getReportMetadata(type);
+    if (type === 'briefing') return this.reporterConfig.briefingBasePrice;
+    if (type === 'deep-dive') return this.reporterConfig.deepdiveBasePrice;
+    const metadata = this.getReportTypeMetadata(type);
     return metadata?.basePrice || 100;
   }
+
+  /**
+   * Expected delivery time for a report type (rush = RUSH_DELIVERY_FACTOR of it)
+   */
+  getDeliveryTimeMs(type: ReportType, rush = false): number {
+    const deliveryTimeMs = this.getReportTypeMetadata(type)?.deliveryTimeMs || 600000;
+    return rush ? Math.round(deliveryTimeMs * RUSH_DELIVERY_FACTOR) : deliveryTimeMs;
+  }
+
+  /**
+   * Itemized price for a request (see pricing.ts for the rules).
+   * With a clientId, repeat-client status comes from their delivered/paid jobs.
+   */
+  async quotePrice(request: PricingRequest, clientId?: UUID): Promise<PriceBreakdown> {
+    const metadata = this.getReportTypeMetadata(request.reportType);
+    if (!metadata) {
+      throw new Error(`Unknown report type: ${request.reportType}`);
+    }
+
+    let isRepeatClient = request.isRepeatClient;
+    if (isRepeatClient === undefined && clientId) {
+      const pastJobs = await this.findJobs({ clientId, status: ['delivered', 'paid'] });
+      isRepeatClient = pastJobs.length > 0;
+    }
+
+    return calculatePrice(
+      { ...request, isRepeatClient },
+      {
+        basePrice: this.getPriceForReportType(request.reportType),
+        estimatedWordCount: metadata.estimatedWordCount,
+        rushMultiplier: this.reporterConfig.rushMultiplier,
+        extraStoryPrice: this.reporterConfig.extraStoryPrice,
+        repeatClientDiscount: this.reporterConfig.repeatClientDiscount,
+        bundleDiscount: this.reporterConfig.bundleDiscount,
+      }
+    );
+  }
 }
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'bun:test';
+import { calculatePrice, formatPriceBreakdown, type PricingConfig } from './pricing';
+
+const CONFIG: PricingConfig = {
+  basePrice: 200,
+  estimatedWordCount: 1500,
+  rushMultiplier: 1.5,
+  extraStoryPrice: 25,
+  repeatClientDiscount: 0.1,
+  bundleDiscount: 0.15,
+};
+
+describe('calculatePrice', () => {
+  it('is the base price for a standard request', () => {
+    const breakdown = calculatePrice({ reportType: 'deep-dive' }, CONFIG);
+    expect(breakdown.lineItems).toEqual([{ label: 'Base price', amount: 200 }]);
+    expect(breakdown.total).toBe(200);
+  });
+
+  it('scales with length, never below half price', () => {
+    expect(calculatePrice({ reportType: 'deep-dive', wordCount: 3000 }, CONFIG).total).toBe(400);
+    expect(calculatePrice({ reportType: 'deep-dive', wordCount: 300 }, CONFIG).total).toBe(100);
+    expect(calculatePrice({ reportType: 'deep-dive', wordCount: 1500 }, CONFIG).lineItems).toHaveLength(1);
+  });
+
+  it('charges only for stories beyond what the type includes', () => {
+    expect(calculatePrice({ reportType: 'deep-dive', storyCount: 3 }, CONFIG).total).toBe(250);
+    expect(calculatePrice({ reportType: 'trend-report', storyCount: 3 }, CONFIG).total).toBe(200);
+    expect(calculatePrice({ reportType: 'daily-recap', storyCount: 6 }, CONFIG).total).toBe(225);
+  });
+
+  it('applies rush to the subtotal, then each discount to the running total', () => {
+    const breakdown = calculatePrice(
+      { reportType: 'deep-dive', wordCount: 3000, storyCount: 2, rush: true, isRepeatClient: true, bundleSize: 2 },
+      CONFIG
+    );
+    expect(breakdown.lineItems.map((item) => item.amount)).toEqual([200, 200, 25, 212.5, -63.75, -86.06]);
+    expect(breakdown.lineItems.map((item) => item.label)).toEqual([
+      'Base price',
+      'Length (3000 words vs 1500 standard)',
+      'Scope (1 extra story × $25)',
+      'Rush delivery (×1.5)',
+      'Repeat client (-10%)',
+      'Bundle of 2 (-15%)',
+    ]);
+    expect(breakdown.total).toBe(487.69);
+  });
+
+  it('skips adjustments that are switched off', () => {
+    const off = { ...CONFIG, rushMultiplier: 1, repeatClientDiscount: 0, bundleDiscount: 0 };
+    const breakdown = calculatePrice({ reportType: 'briefing', rush: true, isRepeatClient: true, bundleSize: 3 }, off);
+    expect(breakdown.total).toBe(200);
+  });
+});
+
+describe('formatPriceBreakdown', () => {
+  it('lists each line with its sign and the total', () => {
+    const breakdown = calculatePrice({ reportType: 'briefing', isRepeatClient: true }, CONFIG);
+    expect(formatPriceBreakdown(breakdown)).toBe(
+      '- Base price: $200.00\n- Repeat client (-10%): -$20.00\n- **Total: $180.00**'
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import type { PriceBreakdown, PriceLineItem, PricingRequest, ReportType } from '../types';
+
+/**
+ * Report pricing engine (used by NewsReporterService.quotePrice)
+ *
+ * Starts from the configured base price and applies, in order:
+ * 1. Length: scales with requested words vs the type's estimate (never below half price)
+ * 2. Scope: a flat fee per story/topic beyond what the type includes
+ * 3. Rush: multiplier on the subtotal
+ * 4. Discounts: repeat client, then bundle (each on the running total)
+ *
+ * WHY ITEMIZED:
+ * - Clients see why a quote differs from the list price
+ * - Jobs keep the breakdown for invoices
+ */
+
+export interface PricingConfig {
+  basePrice: number;
+  estimatedWordCount: number;
+  rushMultiplier: number;
+  extraStoryPrice: number;
+  repeatClientDiscount: number; // Fraction, e.g. 0.1 = 10%
+  bundleDiscount: number; // Fraction, applied when bundleSize >= 2
+}
+
+// Stories/topics covered by the base price. Recaps and trends span several by design.
+const INCLUDED_STORIES: Partial<Record<ReportType, number>> = {
+  'trend-report': 3,
+  'daily-recap': 5,
+};
+
+const MIN_LENGTH_FACTOR = 0.5;
+
+export function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function getIncludedStories(reportType: ReportType): number {
+  return INCLUDED_STORIES[reportType] ?? 1;
+}
+
+export function calculatePrice(request: PricingRequest, config: PricingConfig): PriceBreakdown {
+  const lineItems: PriceLineItem[] = [{ label: 'Base price', amount: config.basePrice }];
+  let total = config.basePrice;
+
+  // 1. Length
+  if (request.wordCount && config.estimatedWordCount > 0 && request.wordCount !== config.estimatedWordCount) {
+    const factor = Math.max(MIN_LENGTH_FACTOR, request.wordCount / config.estimatedWordCount);
+    const amount = round2(config.basePrice * (factor - 1));
+    if (amount !== 0) {
+      lineItems.push({
+        label: `Length (${request.wordCount} words vs ${config.estimatedWordCount} standard)`,
+        amount,
+      });
+      total += amount;
+    }
+  }
+
+  // 2. Scope
+  const included = getIncludedStories(request.reportType);
+  const extraStories = Math.max(0, (request.storyCount ?? 0) - included);
+  if (extraStories > 0 && config.extraStoryPrice > 0) {
+    const amount = extraStories * config.extraStoryPrice;
+    lineItems.push({
+      label: `Scope (${extraStories} extra ${extraStories === 1 ? 'story' : 'stories'} × $${config.extraStoryPrice})`,
+      amount,
+    });
+    total += amount;
+  }
+
+  // 3. Rush
+  if (request.rush && config.rushMultiplier > 1) {
+    const amount = round2(total * (config.rushMultiplier - 1));
+    lineItems.push({ label: `Rush delivery (×${config.rushMultiplier})`, amount });
+    total += amount;
+  }
+
+  // 4. Discounts
+  if (request.isRepeatClient && config.repeatClientDiscount > 0) {
+    const amount = -round2(total * config.repeatClientDiscount);
+    lineItems.push({ label: `Repeat client (-${Math.round(config.repeatClientDiscount * 100)}%)`, amount });
+    total += amount;
+  }
+  if ((request.bundleSize ?? 1) >= 2 && config.bundleDiscount > 0) {
+    const amount = -round2(total * config.bundleDiscount);
+    lineItems.push({
+      label: `Bundle of ${request.bundleSize} (-${Math.round(config.bundleDiscount * 100)}%)`,
+      amount,
+    });
+    total += amount;
+  }
+
+  return {
+    reportType: request.reportType,
+    basePrice: config.basePrice,
+    lineItems,
+    total: round2(Math.max(0, total)),
+  };
+}
+
+/**
+ * Markdown breakdown for chat
+ */
+export function formatPriceBreakdown(breakdown: PriceBreakdown): string {
+  const lines = breakdown.lineItems.map((item, i) => {
+    const sign = i === 0 ? '' : item.amount < 0 ? '-' : '+';
+    return `- ${item.label}: ${sign}$${Math.abs(item.amount).toFixed(2)}`;
+  });
+  lines.push(`- **Total: $${breakdown.total.toFixed(2)}**`);
+  return lines.join('\n');
+}
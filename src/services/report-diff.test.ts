@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'bun:test';
+import { diffLines, formatDiff } from './report-diff';
+
+describe('diffLines', () => {
+  it('marks every line the same for identical versions', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { kind: 'same', text: 'a' },
+      { kind: 'same', text: 'b' },
+    ]);
+  });
+
+  it('lists a changed line as removed, then added', () => {
+    expect(diffLines('title\nold line\nend', 'title\nnew line\nend')).toEqual([
+      { kind: 'same', text: 'title' },
+      { kind: 'removed', text: 'old line' },
+      { kind: 'added', text: 'new line' },
+      { kind: 'same', text: 'end' },
+    ]);
+  });
+
+  it('keeps the longest common run of lines', () => {
+    const kinds = diffLines('a\nb\nc\nd', 'b\nc\nd\ne').map((l) => `${l.kind}:${l.text}`);
+    expect(kinds).toEqual(['removed:a', 'same:b', 'same:c', 'same:d', 'added:e']);
+  });
+
+  it('handles versions added to or emptied out entirely', () => {
+    expect(diffLines('', 'new')).toEqual([
+      { kind: 'removed', text: '' },
+      { kind: 'added', text: 'new' },
+    ]);
+    expect(diffLines('x\ny', 'x')).toEqual([
+      { kind: 'same', text: 'x' },
+      { kind: 'removed', text: 'y' },
+    ]);
+  });
+});
+
+describe('formatDiff', () => {
+  it('keeps one line of context and collapses the rest', () => {
+    const before = ['1', '2', '3', '4', '5', '6'].join('\n');
+    const after = ['1', '2', '3', 'four', '5', '6'].join('\n');
+    expect(formatDiff(diffLines(before, after))).toBe(['...', '  3', '- 4', '+ four', '  5', '...'].join('\n'));
+  });
+
+  it('is all "..." when nothing changed', () => {
+    expect(formatDiff(diffLines('a\nb', 'a\nb'))).toBe('...');
+  });
+});
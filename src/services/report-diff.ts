@@ -0,0 +1,72 @@
+/**
+ * Line diff between two report versions (used by NewsReporterService.getReportDiff)
+ *
+ * LCS over lines -- reports are at most a few hundred lines, so O(n·m) is fine and
+ * keeps the plugin free of a diff dependency.
+ */
+
+export interface DiffLine {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ kind: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ kind: 'removed', text: a[i++] });
+    } else {
+      result.push({ kind: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ kind: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ kind: 'added', text: b[j++] });
+
+  return result;
+}
+
+/**
+ * Unified-style text: "- " removed, "+ " added. Unchanged lines are kept only as
+ * context around changes; other unchanged runs collapse to "...".
+ */
+export function formatDiff(lines: DiffLine[], context = 1): string {
+  const changed = lines.map((l) => l.kind !== 'same');
+  const keep = lines.map((_, idx) => {
+    for (let k = Math.max(0, idx - context); k <= Math.min(lines.length - 1, idx + context); k++) {
+      if (changed[k]) return true;
+    }
+    return false;
+  });
+
+  const out: string[] = [];
+  let skipped = false;
+  lines.forEach((line, idx) => {
+    if (!keep[idx]) {
+      if (!skipped) out.push('...');
+      skipped = true;
+      return;
+    }
+    skipped = false;
+    const prefix = line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  ';
+    out.push(prefix + line.text);
+  });
+
+  return out.join('\n');
+}
@@ -0,0 +1,155 @@
+import type { ReportSection } from '../types';
+
+/**
+ * Report section helpers (used by NewsReporterService.generateReport / reviseReport)
+ *
+ * Reports are written one declared section at a time (ReportTypeMetadata.structure) and
+ * assembled as "# Title" plus one "## Heading" per section. Boundaries are found again
+ * from the headings rather than trusted from assembly, so the same check works on a
+ * revision the model rewrote as a whole.
+ */
+
+/**
+ * Headline entries ('headline', 'urgent-headline') are the report title, not a body section
+ */
+export function isHeadlineSection(key: string): boolean {
+  return /(^|-)headline$/.test(key);
+}
+
+/**
+ * The sources section is the rendered bibliography, not written by the model
+ */
+export function isSourcesSection(key: string): boolean {
+  return key === 'sources';
+}
+
+/**
+ * 'stakeholder-perspectives' → 'Stakeholder Perspectives', 'what-we-dont-know' → 'What We Don't Know'
+ */
+export function sectionHeading(key: string): string {
+  return key
+    .split('-')
+    .map((word) => (word === 'dont' ? "don't" : word))
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function normalizeHeading(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+/**
+ * Outline lines "key: plan" → plan per section key, plus the title ("title:" or a
+ * headline entry). Keys are matched loosely ("Stakeholder perspectives:" works).
+ */
+export function parseOutline(text: string, structure: string[]): { title?: string; plans: Record<string, string> } {
+  const byNormalized = new Map(structure.map((key) => [normalizeHeading(key), key]));
+  const plans: Record<string, string> = {};
+  let title: string | undefined;
+
+  for (const line of text.split('\n')) {
+    const match = line.match(/^[\s*#-]*([A-Za-z0-9' -]+?)\**\s*:\s*(.+)$/);
+    if (!match) continue;
+    const normalized = normalizeHeading(match[1]);
+    const plan = match[2].trim().replace(/^["*]+|["*]+$/g, '');
+    if (normalized === 'title') {
+      title = title || plan;
+      continue;
+    }
+    const key = byNormalized.get(normalized);
+    if (!key || plans[key]) continue;
+    plans[key] = plan;
+    if (isHeadlineSection(key)) title = title || plan;
+  }
+
+  return { title, plans };
+}
+
+/**
+ * Target words per written section: the report's target split evenly
+ */
+export function sectionWordBudgets(structure: string[], targetWordCount: number): Record<string, number> {
+  const body = structure.filter((key) => !isHeadlineSection(key) && !isSourcesSection(key));
+  const each = Math.max(30, Math.round(targetWordCount / Math.max(1, body.length)));
+  return Object.fromEntries(body.map((key) => [key, each]));
+}
+
+/**
+ * Drop a heading the model repeated at the top of a section it was asked to write
+ */
+export function stripSectionHeading(text: string, key: string): string {
+  const lines = text.trim().split('\n');
+  const first = lines[0]?.replace(/^#+\s*|\**/g, '').replace(/:$/, '') || '';
+  if (normalizeHeading(first) === normalizeHeading(key)) lines.shift();
+  return lines.join('\n').trim();
+}
+
+/**
+ * Title and section bodies (in structure order) → report content
+ */
+export function assembleSections(title: string, structure: string[], bodies: Record<string, string>): string {
+  const parts = [`# ${title}`];
+  for (const key of structure) {
+    if (isHeadlineSection(key)) continue;
+    parts.push(`## ${sectionHeading(key)}\n\n${bodies[key]?.trim() || ''}`);
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * Where each declared section sits in content, and which are missing (no heading, or a
+ * heading with nothing under it). Headline sections are the first non-empty line.
+ */
+export function locateSections(
+  content: string,
+  structure: string[]
+): { sections: ReportSection[]; missing: string[] } {
+  // Every heading line with its offsets
+  const headings: { text: string; start: number; bodyStart: number }[] = [];
+  const headingPattern = /^#{1,6}[ \t]+(.+)$/gm;
+  for (let match = headingPattern.exec(content); match; match = headingPattern.exec(content)) {
+    headings.push({ text: match[1].trim(), start: match.index, bodyStart: match.index + match[0].length });
+  }
+
+  // Declared body sections by heading; subheadings inside a section stay part of it
+  const matched = new Map<string, (typeof headings)[number]>();
+  for (const key of structure) {
+    if (isHeadlineSection(key)) continue;
+    const heading = headings.find((h) => normalizeHeading(h.text) === normalizeHeading(key));
+    if (heading) matched.set(key, heading);
+  }
+  const starts = [...matched.values()].map((h) => h.start).sort((a, b) => a - b);
+
+  const found: ReportSection[] = [];
+  const missing: string[] = [];
+  for (const key of structure) {
+    if (isHeadlineSection(key)) {
+      const start = content.search(/\S/);
+      if (start < 0) {
+        missing.push(key);
+        continue;
+      }
+      const lineEnd = content.indexOf('\n', start);
+      const end = lineEnd < 0 ? content.length : lineEnd;
+      const heading = content.slice(start, end).replace(/^#+\s*/, '').trim();
+      found.push({ key, heading, start, end, wordCount: countWords(heading) });
+      continue;
+    }
+
+    const heading = matched.get(key);
+    const end = heading ? (starts.find((s) => s > heading.start) ?? content.length) : 0;
+    const wordCount = heading ? countWords(content.slice(heading.bodyStart, end)) : 0;
+    if (!heading || wordCount === 0) {
+      missing.push(key);
+      continue;
+    }
+    found.push({ key, heading: heading.text, start: heading.start, end, wordCount });
+  }
+
+  return { sections: found.sort((a, b) => a.start - b.start), missing };
+}
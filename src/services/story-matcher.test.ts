@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'bun:test';
+import type { UUID } from '@elizaos/core';
+import type { Story } from '../types';
+import { clearWinner, extractTerms, matchStories, pickFromCandidates } from './story-matcher';
+
+function makeStory(overrides: Partial<Story> & Pick<Story, 'id' | 'title'>): Story {
+  return {
+    summary: '',
+    sources: [{ platform: 'babylon' }],
+    topics: [],
+    entities: [],
+    momentum: 'stable',
+    confidence: 0.5,
+    ...overrides,
+  };
+}
+
+const whales = makeStory({
+  id: 'aaaa1111-0000-4000-8000-000000000001' as UUID,
+  title: 'Babylon whales move 10,000 BTC',
+  topics: ['staking'],
+  entities: ['Babylon Labs'],
+  confidence: 0.9,
+});
+const vote = makeStory({
+  id: 'bbbb2222-0000-4000-8000-000000000002' as UUID,
+  title: 'Babylon governance vote passes',
+  topics: ['governance'],
+  entities: ['Babylon'],
+  confidence: 0.8,
+});
+const gas = makeStory({
+  id: 'cccc3333-0000-4000-8000-000000000003' as UUID,
+  title: 'Ethereum gas fees spike',
+  topics: ['fees'],
+  entities: ['Ethereum'],
+  confidence: 0.7,
+});
+const stories = [gas, vote, whales];
+
+describe('extractTerms', () => {
+  it('drops request words so a bare request has no topic', () => {
+    expect(extractTerms('Write me a daily recap please')).toEqual([]);
+    expect(extractTerms('deep dive on the Babylon whales')).toEqual(['babylon', 'whale']);
+  });
+});
+
+describe('matchStories', () => {
+  it('returns only stories sharing the request terms, best first', () => {
+    const matches = matchStories(stories, 'briefing on Ethereum fees');
+    expect(matches.map((m) => m.story.id)).toEqual([gas.id]);
+    expect(matches[0].matched).toEqual(['ethereum', 'fee']);
+  });
+
+  it('breaks score ties on story confidence', () => {
+    const matches = matchStories(stories, 'briefing on Babylon');
+    expect(matches.map((m) => m.story.id)).toEqual([whales.id, vote.id]);
+    expect(matches[0].score).toBe(matches[1].score);
+  });
+
+  it('matches nothing when the request has no topic', () => {
+    expect(matchStories(stories, 'write a report')).toEqual([]);
+  });
+});
+
+describe('clearWinner', () => {
+  it('picks the best match when it clearly beats the runner-up', () => {
+    expect(clearWinner(matchStories(stories, 'Babylon whales staking'))?.story.id).toBe(whales.id);
+  });
+
+  it('asks instead when the top matches are close', () => {
+    expect(clearWinner(matchStories(stories, 'Babylon whale activity'))).toBeNull();
+    expect(clearWinner(matchStories(stories, 'Babylon'))).toBeNull();
+  });
+
+  it('takes a lone match and nothing from no matches', () => {
+    expect(clearWinner(matchStories([vote], 'Babylon'))?.story.id).toBe(vote.id);
+    expect(clearWinner([])).toBeNull();
+  });
+});
+
+describe('pickFromCandidates', () => {
+  const candidates = [whales, vote];
+
+  it('takes every candidate for "all" or "both"', () => {
+    expect(pickFromCandidates('both please', candidates)).toEqual(candidates);
+  });
+
+  it('takes a candidate by number, ordinal or ID prefix', () => {
+    expect(pickFromCandidates('2', candidates)).toEqual([vote]);
+    expect(pickFromCandidates('#1', candidates)).toEqual([whales]);
+    expect(pickFromCandidates('the second one', candidates)).toEqual([vote]);
+    expect(pickFromCandidates(`go with ${vote.id.slice(0, 8)}`, candidates)).toEqual([vote]);
+  });
+
+  it('takes a candidate by words from its title', () => {
+    expect(pickFromCandidates('the governance one', candidates)).toEqual([vote]);
+  });
+
+  it('picks nothing from an ambiguous or unrelated reply', () => {
+    expect(pickFromCandidates('the Babylon one', candidates)).toEqual([]);
+    expect(pickFromCandidates('3', candidates)).toEqual([]);
+    expect(pickFromCandidates('not sure yet', candidates)).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import type { Story } from '../types';
+
+/**
+ * Story matching for free-text requests (used by NewsReporterService.resolveStoriesForRequest)
+ *
+ * "Write a briefing on the Babylon whale activity" → stories whose title, topics or
+ * entities share the request's words. Request and report-type words are ignored, so
+ * "write me a daily recap" has no topic at all rather than matching every story.
+ */
+
+const STOPWORDS = new Set(
+  `a about an and any are around article articles analysis brief briefing can could covering create daily
+  deep dive digest do for from generate give happening in is it latest me my new news of on please produce
+  recap recent regarding report reports some story stories that the this to trend up us what whats with
+  write you`.split(/\s+/)
+);
+
+// Scores below this are incidental overlaps, not matches
+const MIN_MATCH_SCORE = 2;
+// A single-story request is unambiguous when the best match clearly beats the runner-up
+const CLEAR_WINNER_RATIO = 1.5;
+
+export interface StoryMatch {
+  story: Story;
+  score: number;
+  matched: string[]; // Request terms found in the story
+}
+
+export function extractTerms(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .filter((w) => w.length > 1 && !STOPWORDS.has(w))
+    // Plurals match singulars ("whales" / "whale activity")
+    .map((w) => (w.length > 3 && w.endsWith('s') && !w.endsWith('ss') ? w.slice(0, -1) : w));
+  return [...new Set(words)];
+}
+
+/**
+ * Entity and title hits count most (they name the story); topics are broader
+ */
+export function scoreStory(story: Story, text: string, terms: string[]): StoryMatch {
+  const lowerText = text.toLowerCase();
+  const titleWords = new Set(extractTerms(story.title));
+  const topicWords = new Set(story.topics.flatMap((t) => extractTerms(t)));
+  const entityWords = new Set(story.entities.flatMap((e) => extractTerms(e)));
+
+  let score = 0;
+  const matched: string[] = [];
+  for (const term of terms) {
+    const hit = (entityWords.has(term) ? 3 : 0) + (titleWords.has(term) ? 2 : 0) + (topicWords.has(term) ? 1 : 0);
+    if (hit > 0) {
+      score += hit;
+      matched.push(term);
+    }
+  }
+
+  // A multi-word entity named in full ("Babylon Labs") is a strong signal on its own
+  for (const entity of story.entities) {
+    if (entity.includes(' ') && lowerText.includes(entity.toLowerCase())) score += 3;
+  }
+
+  return { story, score, matched };
+}
+
+/**
+ * Stories matching the request, best first
+ */
+export function matchStories(stories: Story[], text: string): StoryMatch[] {
+  const terms = extractTerms(text);
+  if (terms.length === 0) return [];
+
+  return stories
+    .map((story) => scoreStory(story, text, terms))
+    .filter((m) => m.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score || b.story.confidence - a.story.confidence);
+}
+
+/**
+ * Best match if it clearly beats the runner-up, else null (caller should ask)
+ */
+export function clearWinner(matches: StoryMatch[]): StoryMatch | null {
+  if (matches.length === 0) return null;
+  if (matches.length === 1) return matches[0];
+  return matches[0].score >= matches[1].score * CLEAR_WINNER_RATIO ? matches[0] : null;
+}
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth'];
+
+/**
+ * Which of the offered candidates a follow-up picks: "all"/"both", an ID prefix,
+ * a number ("2", "#2", "the second"), or words from one title. Empty if unclear.
+ */
+export function pickFromCandidates(text: string, candidates: Story[]): Story[] {
+  const lower = text.toLowerCase();
+  if (/\b(all|both|each)\b/.test(lower)) return candidates;
+
+  const byId = candidates.filter((s) => lower.includes(s.id.slice(0, 8)));
+  if (byId.length > 0) return byId;
+
+  const number = lower.match(/(?:^\s*|#|\b(?:number|option)\s*)(\d)\b/)?.[1];
+  const ordinal = ORDINALS.findIndex((o) => new RegExp(`\\b${o}\\b`).test(lower));
+  const index = number ? Number(number) - 1 : ordinal;
+  if (index >= 0 && index < candidates.length) return [candidates[index]];
+
+  const winner = clearWinner(matchStories(candidates, text));
+  return winner ? [winner.story] : [];
+}
@@ -0,0 +1,45 @@
+import type { IAgentRuntime, State } from '@elizaos/core';
+import type { StorySource } from '../types';
+
+/**
+ * Built-in story sources
+ *
+ * Both are registered by NewsReporterService at startup. Other plugins add their own
+ * via reporter.registerStorySource().
+ */
+
+/**
+ * plugin-investigator (read directly from the service)
+ *
+ * WHY resolve the service on every call:
+ * - The investigator may start after the reporter
+ * - Reading the service directly avoids provider ordering issues
+ */
+export function createInvestigatorStorySource(runtime: IAgentRuntime): StorySource {
+  return {
+    name: 'investigator',
+    getStories: async () => {
+      const investigator = runtime.getService('investigator') as unknown as {
+        getActiveStories?: () => Promise<unknown[]>;
+      } | null;
+      if (!investigator || typeof investigator.getActiveStories !== 'function') {
+        return [];
+      }
+      return (await investigator.getActiveStories()) || [];
+    },
+  };
+}
+
+/**
+ * NEWS_STORIES provider data (composability with non-investigator story providers)
+ * Only has data when called with composed state.
+ */
+export const newsStoriesProviderSource: StorySource = {
+  name: 'news-stories-provider',
+  getStories: async (state?: State) => {
+    const storiesData = state?.data?.providers?.NEWS_STORIES?.data as
+      | { stories?: unknown[] }
+      | undefined;
+    return storiesData?.stories || [];
+  },
+};
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import type { UUID } from '@elizaos/core';
+import type { Story } from './types';
+
+const storySourceRefSchema = z.object({
+  platform: z.string().min(1),
+  url: z.string().optional(),
+  author: z.string().optional(),
+  observedAt: z.number().optional(),
+});
+
+/**
+ * Story validation schema
+ *
+ * WHY lenient defaults for topics/entities/momentum:
+ * - Sources differ in how much they annotate; a story without topics is still reportable
+ * - id, title and summary are the minimum needed to present a story without making things up
+ */
+export const storySchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  summary: z.string().min(1),
+  sources: z.array(storySourceRefSchema).default([]),
+  topics: z.array(z.string()).default([]),
+  entities: z.array(z.string()).default([]),
+  momentum: z.enum(['growing', 'stable', 'fading']).default('stable'),
+  confidence: z.number().min(0).max(1).default(0.5),
+  url: z.string().optional(),
+  firstSeenAt: z.number().optional(),
+  updatedAt: z.number().optional(),
+});
+
+export type StoryParseResult = { success: true; story: Story } | { success: false; reason: string };
+
+/**
+ * Validate a raw story-shaped object from any source
+ */
+export function parseStory(raw: unknown): StoryParseResult {
+  const result = storySchema.safeParse(raw);
+  if (!result.success) {
+    const reason = result.error.issues
+      .map((issue) => `${issue.path.join('.') || 'story'}: ${issue.message}`)
+      .join('; ');
+    return { success: false, reason };
+  }
+  return { success: true, story: { ...result.data, id: result.data.id as UUID } };
+}
@@ -1,4 +1,4 @@
-import type { UUID } from '@elizaos/core';
+import type { State, UUID } from '@elizaos/core';
 
 /**
  * Output room configuration
@@ -20,6 +20,29 @@ export interface OutputRoomConfig {
   cadenceMs?: number; // Override default cadence for this room
   sourceFilter?: string[]; // Only stories from these sources (e.g., ['babylon'])
   archetype?: StoryArchetype; // Default presentation style
+  topics?: string[]; // Pinned room topics (skips LLM inference when set)
+  timezone?: string; // IANA timezone for quiet hours (e.g., 'Asia/Tokyo'), default UTC
+  quietHours?: QuietHours; // No nudges during these local hours
+  digest?: DigestConfig; // Daily digest overrides for this room
+}
+
+/**
+ * Per-room daily digest settings
+ * Unset fields fall back to REPORTER_DAILY_DIGEST_ENABLED / REPORTER_DAILY_DIGEST_HOUR_UTC.
+ */
+export interface DigestConfig {
+  enabled?: boolean; // Opt in/out regardless of the global setting
+  hour?: number; // 0-23 in the room's timezone
+  weekdays?: number[]; // 0 = Sunday ... 6 = Saturday, room-local; default every day
+}
+
+/**
+ * Quiet hours in the room's local time (0-23). Wraps midnight when startHour > endHour,
+ * e.g. { startHour: 22, endHour: 7 } = 22:00-06:59.
+ */
+export interface QuietHours {
+  startHour: number;
+  endHour: number;
 }
 
 /**
@@ -31,24 +54,92 @@ export interface CoverageState {
   roomName: string;
   platform: string;
   lastMentionAt: number; // Last time agent mentioned a story in this room
-  mentionCount24h: number; // How many times mentioned in last 24h
+  mentionCount24h: number; // Mentions in the last 24h (derived from mentionTimestamps)
+  mentionTimestamps?: number[]; // Rolling 24h window of mention times
   cadenceMs: number; // How often to nudge about stories
-  strikes: number; // Negative feedback count
+  strikes: number; // Active (undecayed) strike count, derived from strikeLog
+  strikeLog?: StrikeRecord[]; // Per-complainer strikes, each decays on its own timestamp
   mutedUntil?: number; // Auto-mute timestamp
-  roomTopics?: string[]; // Inferred room topics (cached 24h) -- v2 feature
+  roomTopics?: string[]; // Inferred room topics (cached for REPORTER_ROOM_TOPICS_TTL_MS)
   roomTopicsInferredAt?: number;
-  lastIdleAt?: number; // Last time room was idle -- v2 feature
+  roomTopicsAttemptedAt?: number; // Last inference attempt, successful or not (failures wait out the TTL too)
+  lastHumanMessageAt?: number; // Last non-agent message seen by the coverage pump
+  lastIdleAt?: number; // Last time the coverage pump found the room idle
+  archetypeEngagement?: Partial<Record<StoryArchetype, ArchetypeEngagement>>; // Per-archetype outcomes
+  lastDigestAt?: number; // Last digest actually posted
+  lastDigestDate?: string; // Room-local YYYY-MM-DD of the last digest (one per day)
+}
+
+/**
+ * One negative-feedback strike from one complaining entity
+ */
+export interface StrikeRecord {
+  entityId: UUID;
+  at: number;
+  confidence?: number;
+  reason?: string;
+}
+
+/**
+ * Engagement outcomes for one archetype in one room
+ */
+export interface ArchetypeEngagement {
+  posts: number; // Story posts using this archetype
+  replies: number; // Human replies to those posts
+  reactions: number; // Reactions to those posts
+}
+
+/**
+ * Per-room archetype stats (read model for pickArchetype and operators)
+ */
+export interface ArchetypeStats extends ArchetypeEngagement {
+  archetype: StoryArchetype;
+  score: number; // Engagement per post: (2 × replies + reactions) / posts
+}
+
+/**
+ * Coverage ledger entry: one story covered in one room
+ *
+ * Snapshot fields (momentum, confidence, sourceCount) capture the story as it was
+ * when covered, so later developments can be detected.
+ */
+export interface CoverageLedgerEntry {
+  storyId: UUID;
+  roomId: UUID;
+  archetype: StoryArchetype;
+  coveredAt: number;
+  storyTitle: string;
+  momentum: StoryMomentum;
+  confidence: number;
+  sourceCount: number;
+  isFollowUp: boolean;
+  messageId?: UUID; // Agent's story post (engagement is attributed via inReplyTo)
+}
+
+/**
+ * Negative-feedback classifier verdict
+ */
+export interface FeedbackVerdict {
+  isNegative: boolean; // Complaint aimed at the agent's news posts
+  targetsAgent: boolean;
+  confidence: number; // 0..1
+  reason: string;
+  stage: 'prefilter' | 'model' | 'fallback'; // Which layer decided
 }
 
 /**
  * Report types for commerce integration
+ * Built-ins plus operator-defined types (character.settings.newsreporter.reportTypes).
+ * `string & {}` keeps editor completion for the built-ins.
  */
-export type ReportType = 'briefing' | 'deep-dive' | 'trend-report' | 'breaking-news' | 'daily-recap';
+export type BuiltInReportType = 'briefing' | 'deep-dive' | 'trend-report' | 'breaking-news' | 'daily-recap';
+export type ReportType = BuiltInReportType | (string & {});
 
 /**
  * Generated news report
  */
 export interface NewsReport {
+  id?: UUID; // reporter_reports memory ID, set once saved
   type: ReportType;
   title: string;
   content: string;
@@ -56,8 +147,390 @@ export interface NewsReport {
   wordCount: number;
   generatedAt: number;
   jobId?: UUID; // Commerce job if commissioned
+  roomId?: UUID; // Room the report was produced for (digests, commissions)
+  requestedBy?: UUID; // Client entity (commissions, subscriptions, ad-hoc requests)
+  version?: number; // 1 = original, +1 per revision
+  parentId?: UUID; // Previous version (revisions only)
+  revisionFeedback?: string; // Client feedback this version applied
+  sections?: ReportSection[]; // Where each declared section sits in content
+  citations?: ReportCitation[]; // Sources behind the [n] markers in content, by number
+  verification?: ReportVerification; // Fact-check (a revision carries its parent's, marked stale)
+  lengthControl?: ReportLengthControl; // Target band and how the draft was brought into it (stale on revisions)
+}
+
+/**
+ * Length control for a generated report. Word counts cover the written sections only
+ * (no title, headings, citation markers or bibliography).
+ */
+export interface ReportLengthControl {
+  targetWordCount: number;
+  tolerance: number; // Fraction of the target
+  minWords: number;
+  maxWords: number;
+  draftWordCount: number; // Before adjustments
+  finalWordCount: number;
+  deviation: number; // (final - target) / target, e.g. -0.08 = 8% short
+  withinTolerance: boolean;
+  adjustments: { section: string; action: 'expanded' | 'condensed'; fromWords: number; toWords: number }[];
+  stale?: boolean; // Copied from an earlier version: this revision wasn't measured
+}
+
+/**
+ * Fact-check of a generated report against its story data (titles, summaries, sources)
+ * - supported: the stories say so
+ * - unsupported: the stories don't say so (invented numbers, names, events)
+ * - contradicted: the stories say otherwise
+ */
+export type ClaimVerdict = 'supported' | 'unsupported' | 'contradicted';
+
+export interface CheckedClaim {
+  text: string;
+  section?: string; // Structure key the claim was found in
+  verdict: ClaimVerdict;
+  evidence?: string; // What the stories say, for unsupported/contradicted claims
+  // revised = its section was rewritten and the rewrite re-checked clean; revised-unverified =
+  // rewritten, but the re-check failed or still found problems (listed as claims of their own)
+  resolution: 'kept' | 'revised' | 'revised-unverified';
+}
+
+export interface ReportVerification {
+  checkedAt: number;
+  // verified: every claim supported; corrected: all problems revised and re-checked; flagged:
+  // some problems remain or weren't confirmed fixed; skipped: no check (no story data,
+  // disabled, or model failure)
+  status: 'verified' | 'corrected' | 'flagged' | 'skipped';
+  claims: CheckedClaim[];
+  supported: number;
+  unsupported: number;
+  contradicted: number;
+  revisedSections: string[];
+  note?: string; // Why it was skipped
+  stale?: boolean; // Copied from an earlier version: this revision wasn't checked
+}
+
+/**
+ * A numbered source cited in a report ([n] in the text), taken from a story's sources.
+ * claims are the sentences that cite it, so consumers can check what came from where.
+ */
+export interface ReportCitation {
+  number: number;
+  storyId: UUID;
+  storyTitle: string;
+  platform: string;
+  url?: string;
+  author?: string;
+  observedAt?: number;
+  claims: { section?: string; text: string }[]; // section = structure key
+}
+
+/**
+ * One section of a report from its type's structure (ReportTypeMetadata.structure).
+ * start/end are character offsets into NewsReport.content, heading line included;
+ * headline sections point at the title line.
+ */
+export interface ReportSection {
+  key: string; // Structure entry, e.g. 'stakeholder-perspectives'
+  heading: string; // As rendered in the report
+  start: number;
+  end: number; // Exclusive
+  wordCount: number; // Body only
+}
+
+/**
+ * Archive search over reporter_reports (NewsReporterService.searchReports)
+ * All filters are optional and combine with AND.
+ */
+export interface ReportSearchQuery {
+  type?: ReportType;
+  title?: string; // Case-insensitive substring
+  text?: string; // Every word must appear in the title or content
+  from?: number; // generatedAt >= from
+  to?: number; // generatedAt <= to
+  storyId?: UUID;
+  jobId?: UUID;
+  requestedBy?: UUID;
+  visibleTo?: { entityId: UUID; roomId: UUID }; // Their own reports + reports made for that room
+  includeAllVersions?: boolean; // Default: only the latest version of each report
+  offset?: number; // Default 0
+  limit?: number; // Default 10, max 50
+}
+
+export interface ReportSearchResult {
+  reports: NewsReport[]; // Newest first
+  total: number; // Matches before pagination
+  offset: number;
+  limit: number;
+  hasMore: boolean;
 }
 
+/**
+ * Options for NewsReporterService.generateReport
+ */
+/**
+ * Which stories a report request is about (NewsReporterService.resolveStoriesForRequest)
+ */
+export type StoryResolution =
+  | { status: 'resolved'; stories: Story[] }
+  | { status: 'ambiguous'; candidates: Story[] } // Ask the requester which one
+  | { status: 'none'; topic: string }; // Nothing active matches (topic '' = no topic and no stories)
+
+export interface GenerateReportOptions {
+  jobId?: UUID;
+  requestedBy?: UUID; // Entity that asked for the report
+  roomId?: UUID;
+  platform?: string; // Adapt the report to this platform's voice
+  brief?: string; // Client's own request, for commissioned reports
+  targetWordCount?: number; // Overrides the report type's estimated word count
+  stories?: Story[]; // Snapshots of storyIds, used instead of looking them up again
+}
+
+/**
+ * Background report generation (NewsReporterService.enqueueReport)
+ * Each entry is persisted as a NEWS_GENERATE_REPORT task, so it survives restarts.
+ */
+export type QueuedReportStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface QueuedReport {
+  id: UUID; // Task ID
+  reportType: ReportType;
+  storyIds: UUID[];
+  stories?: Story[]; // Snapshots of storyIds from when it was queued
+  jobId?: UUID; // Commissioned: fulfilled through the job and delivered when done
+  requestedBy: UUID;
+  roomId: UUID; // Progress and the finished report are posted here
+  source?: string; // Platform of that room
+  brief?: string;
+  targetWordCount?: number;
+  status: QueuedReportStatus;
+  attempts: number;
+  queuedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  reportId?: UUID;
+  error?: string; // Last failure
+}
+
+/**
+ * What a client asked for, as far as pricing is concerned
+ */
+export interface PricingRequest {
+  reportType: ReportType;
+  rush?: boolean; // Wants it faster than the type's usual delivery time
+  storyCount?: number; // Stories or topics to cover
+  wordCount?: number; // Requested length, if different from the type's estimate
+  isRepeatClient?: boolean; // Has had a report delivered before
+  bundleSize?: number; // Reports quoted together (including this one)
+}
+
+export interface PriceLineItem {
+  label: string;
+  amount: number; // Negative for discounts
+}
+
+/**
+ * Itemized price for one report
+ */
+export interface PriceBreakdown {
+  reportType: ReportType;
+  basePrice: number;
+  lineItems: PriceLineItem[]; // Base price first, then adjustments in the order applied
+  total: number;
+}
+
+/**
+ * Price quote for a commissioned report
+ * Persisted in reporter_quotes; accepting it creates the job.
+ */
+export interface ReportQuote {
+  id: UUID;
+  clientId: UUID; // Requester -- the only entity that can accept it
+  roomId: UUID; // Room the quote was given in (acceptance must come from here)
+  source?: string; // Platform of that room
+  reportType: ReportType;
+  topic: string; // What the report should cover
+  brief: string; // The client's request text
+  price: number;
+  priceBreakdown?: PriceBreakdown;
+  rush?: boolean;
+  targetWordCount?: number;
+  bundleId?: UUID; // Shared by quotes given together (accepted together)
+  stories?: Story[]; // Stories matched when quoting, as they were then (carried to the job)
+  subscription?: { deliverySchedule: string; durationMs: number }; // Subscription quote: accepting starts it
+  status: ReportQuoteStatus;
+  createdAt: number;
+  expiresAt: number;
+  jobId?: UUID; // Set once accepted
+}
+
+export type ReportQuoteStatus = 'open' | 'accepted' | 'expired';
+
+/**
+ * Which quote an acceptance refers to (NewsReporterService.resolveQuoteForAcceptance)
+ */
+export type QuoteResolution =
+  | { status: 'open'; quotes: ReportQuote[] } // The quote, plus the rest of its bundle
+  | { status: 'expired'; quote: ReportQuote }
+  | { status: 'foreign'; quote: ReportQuote } // Someone else's quote
+  | { status: 'none' };
+
+/**
+ * Commissioned report job
+ * quoted → accepted → in-progress → delivered → paid (cancelled from any state before delivery)
+ */
+export type ReportJobStatus = 'quoted' | 'accepted' | 'in-progress' | 'delivered' | 'paid' | 'cancelled';
+
+export interface ReportJob {
+  id: UUID;
+  quoteId?: UUID; // Quote this job was created from
+  clientId: UUID; // Entity that asked for the quote
+  roomId: UUID; // Where the quote was given and the report is delivered
+  source?: string; // Platform of that room
+  reportType: ReportType;
+  price: number;
+  priceBreakdown?: PriceBreakdown;
+  rush?: boolean;
+  targetWordCount?: number; // Client-requested length
+  bundleId?: UUID; // Shared by jobs quoted together (accepted together)
+  topic?: string;
+  brief: string; // The client's request text
+  storyIds: UUID[];
+  stories?: Story[]; // Snapshots of storyIds from the quote; sources may drop them before it's written
+  status: ReportJobStatus;
+  statusHistory: Array<{ status: ReportJobStatus; at: number }>;
+  createdAt: number;
+  updatedAt: number;
+  reportId?: UUID; // Generated report (reporter_reports), latest version
+  revisionCount?: number; // Revisions applied (counted against the free allowance)
+  dueAt?: number; // Promised delivery time, set on acceptance from the type's deliveryTimeMs
+  slaBreachedAt?: number; // When the deadline watcher found dueAt (plus grace) missed
+  cancelledBy?: 'client' | 'deadline' | 'expired'; // expired = subscription ended before its first delivery
+  refunds?: JobRefund[];
+  waivers?: JobWaiver[];
+  paidAt?: number; // Payment confirmed (before delivery too, if commerce took it upfront)
+  paidBy?: 'commerce' | 'operator'; // Who confirmed the payment
+  subscriptionId?: UUID; // Subscription this job bills for (delivered with its first report)
+}
+
+/**
+ * Per-client account, persisted in reporter_clients
+ * Updated as the client commissions, pays and gives revision feedback.
+ */
+export interface ClientProfile {
+  clientId: UUID;
+  jobIds: UUID[]; // Most recently delivered commissions, newest first
+  jobCount: number; // Delivered commissions (cancelled ones don't count)
+  totalSpend: number; // Paid jobs, net of refunds
+  reportTypeCounts: Record<string, number>; // Delivered commissions per report type
+  topicCounts: Record<string, number>; // Lowercased quote topics
+  toneNotes: string[]; // Style preferences from revision feedback or set explicitly, oldest first
+  createdAt: number;
+  updatedAt: number;
+  lastJobAt?: number;
+}
+
+/**
+ * Invoice for a delivered commissioned report, persisted in reporter_invoices
+ * Created on delivery (or on cancellation when a fee is still owed); payment status
+ * follows the job (paid, refunded).
+ */
+export type InvoicePaymentStatus = 'unpaid' | 'paid' | 'refunded';
+
+export interface Invoice {
+  id: UUID;
+  number: string; // e.g. NR-2026-0042, sequential per year
+  jobId: UUID;
+  reportId?: UUID;
+  clientId: UUID;
+  roomId: UUID;
+  reportType: ReportType;
+  currency: string;
+  lineItems: PriceLineItem[]; // From the quote's price breakdown
+  subtotal: number; // Quoted price
+  taxRate: number; // Fraction, e.g. 0.2 = 20%
+  tax: number;
+  fees: PriceLineItem[];
+  total: number; // subtotal + tax + fees
+  waived: number; // Credits on the unpaid job (late delivery, cancellation)
+  refunded: number; // Refunds on the job so far
+  amountDue: number; // total - waived, 0 once paid
+  paymentStatus: InvoicePaymentStatus;
+  issuedAt: number;
+  paidAt?: number;
+  updatedAt: number;
+}
+
+/**
+ * Revenue over a period, for reconciliation (NewsReporterService.summarizeInvoices)
+ */
+export interface InvoiceSummary {
+  from: number;
+  to: number;
+  currency: string;
+  invoiceCount: number;
+  subtotal: number;
+  tax: number;
+  fees: number;
+  waived: number;
+  refunded: number;
+  net: number; // total - waived - refunded
+  paid: number; // Net of paid invoices
+  outstanding: number; // Amount due on unpaid invoices
+  byReportType: Record<string, { count: number; net: number }>;
+}
+
+/**
+ * Why a job was credited (refunded or waived)
+ */
+export type JobCreditReason = 'client-cancelled' | 'sla-breach' | 'sla-cancelled' | 'subscription-expired';
+
+/**
+ * Money returned on a paid job. Refunds never exceed what was paid.
+ */
+export interface JobRefund {
+  amount: number;
+  reason: JobCreditReason;
+  at: number;
+  settledBy: 'commerce' | 'manual'; // manual = no commerce refund API, the operator settles it
+}
+
+/**
+ * Part of the price taken off an unpaid job: it's never charged.
+ * Refunds and waivers together add up to at most the job price.
+ */
+export interface JobWaiver {
+  amount: number;
+  reason: JobCreditReason;
+  at: number;
+}
+
+/**
+ * Recurring report subscription
+ * Persisted in reporter_subscriptions; delivered by the NEWS_SUBSCRIPTION_DELIVERY task.
+ * Starts when its quote is accepted; billed through that job on the first delivery.
+ */
+export interface Subscription {
+  id: UUID;
+  clientId: UUID; // Entity that subscribed (only they can cancel)
+  reportType: ReportType;
+  deliverySchedule: string; // Cron format, UTC
+  startDate: number;
+  endDate: number; // No deliveries after this; status becomes 'expired'
+  price: number;
+  status: SubscriptionStatus;
+  roomId: UUID; // Where reports are delivered
+  source: string; // Platform of the delivery room (for sendMessageToTarget)
+  createdAt: number;
+  nextDeliveryAt?: number;
+  lastDeliveredAt?: number;
+  deliveryCount: number;
+  lastFailedAt?: number; // Last slot whose report couldn't be written or sent (skipped, not retried)
+  lastError?: string; // Why, cleared by the next successful delivery
+  cancelledAt?: number;
+  jobId?: UUID; // Payable job created when the subscription quote was accepted
+}
+
+export type SubscriptionStatus = 'active' | 'cancelled' | 'expired';
+
 /**
  * Story presentation archetypes for variety
  */
@@ -72,7 +545,63 @@ export interface ReportTypeMetadata {
   description: string;
   basePrice: number;
   estimatedWordCount: number;
+  wordCountTolerance?: number; // Accepted deviation from the target, e.g. 0.1 = ±10% (default REPORTER_WORD_COUNT_TOLERANCE)
   deliveryTimeMs: number;
   structure: string[];
   guidance: string;
 }
+
+/**
+ * Story momentum as reported by the story source
+ */
+export type StoryMomentum = 'growing' | 'stable' | 'fading';
+
+/**
+ * Where a story was observed (platform + optional link back)
+ */
+export interface StorySourceRef {
+  platform: string; // e.g. 'babylon', 'discord', 'twitter'
+  url?: string;
+  author?: string;
+  observedAt?: number;
+}
+
+/**
+ * Story contract consumed by the reporter
+ *
+ * WHY a local contract:
+ * - The reporter reads from any story-shaped source, not just plugin-investigator
+ * - Every source is validated against this shape before stories reach providers or reports
+ */
+export interface Story {
+  id: UUID;
+  title: string;
+  summary: string;
+  sources: StorySourceRef[];
+  topics: string[];
+  entities: string[];
+  momentum: StoryMomentum;
+  confidence: number; // 0..1
+  url?: string;
+  firstSeenAt?: number;
+  updatedAt?: number;
+}
+
+/**
+ * Pluggable story source
+ * Registered on NewsReporterService; all sources are merged and validated.
+ * Returns raw story-shaped objects -- validation happens in the service.
+ */
+export interface StorySource {
+  name: string;
+  getStories(state?: State): Promise<unknown[]>;
+}
+
+/**
+ * Room idle status (time since the last human message)
+ */
+export interface RoomIdleStatus {
+  idleMs: number; // Infinity when no human message was found
+  isIdle: boolean; // Quiet for REPORTER_MIN_IDLE_BEFORE_NUDGE_MS
+  breakingMayInterrupt: boolean; // Quiet for REPORTER_BREAKING_MIN_IDLE_MS (and override enabled)
+}